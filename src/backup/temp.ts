@@ -4,6 +4,7 @@ import * as path from "path";
 import { configDotenv } from "dotenv";
 import { Liquibase, POSTGRESQL_DEFAULT_CONFIG } from "liquibase";
 import { error, log } from "console";
+import { loadConfig, tableFilter } from "../config.js";
 
 types.setTypeParser(1082, (val: string) => val); // DATE
 
@@ -15,6 +16,11 @@ type TableDiff = { table: string; yaml: string };
 const output = process.env.GITHUB_OUTPUT;
 configDotenv();
 // ────────────── CONFIG ──────────────
+// Table selection and schema come from plm-diff.config.yaml
+const config = loadConfig();
+const SCHEMA = config.schemas[0]!;
+const selected = tableFilter(config);
+
 const refDbConfig = {
   host: process.env.DB_HOST,
   port: process.env.PORT ? parseInt(process.env.PORT) : 5432,
@@ -33,25 +39,8 @@ const targetDbConfig = {
   ssl: { rejectUnauthorized: false },
 };
 
-// Only these tables will be included. Empty = all tables.
-const ALLOWED_TABLES = new Set<string>([
-  // "catalog",
-  // "spec_characteristic",
-  // "product_specification",
-  // "offering_category",
-  // "product_offering",
-  // "material",
-  // "offering_characteristic",
-  // "price_component",
-  // "price_value",
-  // "rel_c2c",
-  // "rel_c2o",
-  // "rel_o2o",
-]);
-
 const timeStamp: string = new Date().toISOString().replace(/[:.&]/g, "-");
-const OUTPUT_DIR = `./db/diff/${timeStamp}/data`;
-const INTERNAL_TABLES = ["databasechangelog", "databasechangeloglock"];
+const OUTPUT_DIR = `./${config.output}/${timeStamp}/data`;
 
 // ────────────── HELPERS ──────────────
 function yamlValue(v: any): string {
@@ -73,16 +62,12 @@ async function loadTables(client: Client): Promise<string[]> {
   const res = await client.query(`
     SELECT table_name
     FROM information_schema.tables
-    WHERE table_schema='public' AND table_type='BASE TABLE'
-  `);
+    WHERE table_schema=$1 AND table_type='BASE TABLE'
+  `, [SCHEMA]);
 
   return res.rows
     .map((r) => r.table_name.toLowerCase())
-    .filter(
-      (t) =>
-        !INTERNAL_TABLES.includes(t) &&
-        (ALLOWED_TABLES.size === 0 || ALLOWED_TABLES.has(t))
-    );
+    .filter((t) => selected(`${SCHEMA}.${t}`));
 }
 
 async function loadPKs(client: Client): Promise<Map<string, TablePK>> {
@@ -92,9 +77,9 @@ async function loadPKs(client: Client): Promise<Map<string, TablePK>> {
     JOIN information_schema.key_column_usage kcu
       ON tc.constraint_name = kcu.constraint_name
     WHERE tc.constraint_type='PRIMARY KEY'
-      AND tc.table_schema='public'
+      AND tc.table_schema=$1
     ORDER BY kcu.ordinal_position
-  `);
+  `, [SCHEMA]);
 
   const map = new Map<string, string[]>();
   res.rows.forEach((r) => {
@@ -112,8 +97,8 @@ async function loadFKs(client: Client): Promise<FK[]> {
     FROM information_schema.table_constraints tc
     JOIN information_schema.constraint_column_usage ccu
       ON tc.constraint_name = ccu.constraint_name
-    WHERE tc.constraint_type='FOREIGN KEY' AND tc.table_schema='public'
-  `);
+    WHERE tc.constraint_type='FOREIGN KEY' AND tc.table_schema=$1
+  `, [SCHEMA]);
 
   return res.rows
     .map((r) => ({
@@ -121,7 +106,7 @@ async function loadFKs(client: Client): Promise<FK[]> {
       parentTable: r.parent.toLowerCase(),
     }))
     .filter(
-      (fk) => ALLOWED_TABLES.size === 0 || ALLOWED_TABLES.has(fk.childTable)
+      (fk) => selected(`${SCHEMA}.${fk.childTable}`)
     );
 }
 
@@ -399,7 +384,7 @@ const generateDBSnapshot = async () => {
     const liquibase: Liquibase = new Liquibase(config_dev);
     await liquibase.generateChangeLog({
       diffTypes,
-      changelogFile: `./db/diff/${timeStamp}/snapshot.yaml`,
+      changelogFile: `./${config.output}/${timeStamp}/snapshot.yaml`,
     });
   } catch (err) {
     error("Failed to create target snapshot!! " + err);
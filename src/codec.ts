@@ -0,0 +1,190 @@
+import type { CustomTypesConfig } from "pg";
+
+/*
+ * Row values travel as Postgres text output (see RAW_TEXT) and are encoded
+ * per column type, using format_type() of the column as the type name.
+ */
+
+/* ───────────── TYPES ───────────── */
+export type PgText = string | null;
+
+// Liquibase column attribute and its YAML-ready value
+export type Encoded = { attr: string; value: string };
+
+type Kind =
+  | "array"
+  | "boolean"
+  | "integer"
+  | "numeric"
+  | "float"
+  | "date"
+  | "timestamp"
+  | "computed"
+  | "json"
+  | "jsonb"
+  | "bytea"
+  | "text";
+
+// Query option returning every column as Postgres text instead of JS values
+export const RAW_TEXT = { getTypeParser: () => (v: string) => v } as unknown as CustomTypesConfig;
+
+/* ───────────── HELPERS ───────────── */
+// Single-quoted YAML scalar; double-quoted with escapes when line breaks or
+// control characters would be folded or rejected by the parser
+const yamlString = (v: string) =>
+  /[\x00-\x08\x0a-\x1f\x7f-\x9f\u2028\u2029]/.test(v)
+    ? JSON.stringify(v).replace(/[\x7f-\x9f\u2028\u2029]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`)
+    : `'${v.replace(/'/g, "''")}'`;
+
+export const yamlVal = (v: any) =>
+  v === null
+    ? "null"
+    : typeof v === "number" || typeof v === "boolean"
+    ? v
+    : yamlString(String(v));
+
+const sqlString = (v: string) => `'${v.replace(/'/g, "''")}'`;
+
+function kind(type: string): Kind {
+  if (type.endsWith("[]")) return "array";
+  if (type === "boolean") return "boolean";
+  if (/^(smallint|integer|bigint)$/.test(type)) return "integer";
+  if (/^numeric\b/.test(type)) return "numeric";
+  if (/^(real|double precision)$/.test(type)) return "float";
+  if (type === "date") return "date";
+  if (/^timestamp(\(\d\))? without time zone$/.test(type)) return "timestamp";
+  if (/^(timestamp|time|interval)\b|^money$/.test(type)) return "computed";
+  if (type === "json" || type === "jsonb" || type === "bytea") return type;
+  return "text";
+}
+
+// 10.50 and 10.5 are the same numeric
+const canonicalNumeric = (v: string) => {
+  const n = v.replace(/^\+/, "").replace(/(\.\d*?)0+$/, "$1").replace(/\.$/, "");
+  return n === "-0" ? "0" : n;
+};
+
+// json keeps the input text; compare structure with keys in a stable order
+const canonicalJson = (v: unknown): unknown =>
+  Array.isArray(v)
+    ? v.map(canonicalJson)
+    : v !== null && typeof v === "object"
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)).map(([k, x]) => [k, canonicalJson(x)]))
+    : v;
+
+const special = (v: string) => /^-?(infinity|nan)$/i.test(v);
+
+/* ───────────── CODEC ───────────── */
+/**
+ * Liquibase attribute for a column value. `writeBlob` stores bytea contents
+ * and returns the file path, relative to the changelog, for valueBlobFile.
+ */
+export function encodeValue(type: string, v: PgText, writeBlob: (bytes: Buffer) => string): Encoded {
+  if (v === null) return { attr: "value", value: "null" };
+  const cast = () => ({ attr: "valueComputed", value: yamlString(`${sqlString(v)}::${type}`) });
+  switch (kind(type)) {
+    case "boolean":
+      return { attr: "valueBoolean", value: String(v === "t" || v === "true") };
+    case "integer":
+    case "numeric":
+    case "float":
+      return special(v) ? cast() : { attr: "valueNumeric", value: yamlString(v) };
+    case "date":
+    case "timestamp":
+      return special(v) || / BC$/.test(v) ? cast() : { attr: "valueDate", value: yamlString(v) };
+    case "bytea":
+      return { attr: "valueBlobFile", value: yamlString(writeBlob(Buffer.from(v.replace(/^\\x/, ""), "hex"))) };
+    case "array":
+    case "computed":
+    case "json":
+    case "jsonb":
+      return cast();
+    default:
+      return { attr: "value", value: yamlString(v) };
+  }
+}
+
+// Semantic equality of two text values of the same column
+export function sameValue(type: string, a: PgText | undefined, b: PgText | undefined): boolean {
+  if (a === undefined || b === undefined) return false;
+  if (a === null || b === null) return a === b;
+  switch (kind(type)) {
+    case "numeric":
+      return special(a) || special(b) ? a === b : canonicalNumeric(a) === canonicalNumeric(b);
+    case "float":
+      return Number(a) === Number(b) || (Number.isNaN(Number(a)) && Number.isNaN(Number(b)));
+    case "json":
+      try {
+        return JSON.stringify(canonicalJson(JSON.parse(a))) === JSON.stringify(canonicalJson(JSON.parse(b)));
+      } catch {
+        return a === b;
+      }
+    default:
+      return a === b;
+  }
+}
+
+// SQL literal for where clauses; a bare 1.1 is numeric and compares to a real
+// column as float8, so floats are cast to the column's own type
+export function sqlLiteral(type: string, v: PgText): string {
+  if (v === null) return "NULL";
+  const k = kind(type);
+  if ((k === "integer" || k === "numeric") && !special(v)) return v;
+  if (k === "boolean") return v === "t" || v === "true" ? "TRUE" : "FALSE";
+  return k === "text" ? sqlString(v) : `${sqlString(v)}::${type}`;
+}
+
+// Where-clause condition matching the value; json has no equality operator
+export function sqlCondition(type: string, column: string, v: PgText): string {
+  if (v === null) return `"${column}" IS NULL`;
+  if (kind(type) === "json") return `"${column}"::text = ${sqlString(v)}`;
+  return `"${column}" = ${sqlLiteral(type, v)}`;
+}
+
+/* ───────────── KEY ORDER ───────────── */
+// Sort order shared by the keyset queries and the merge-join in JS
+export type KeyOrder = {
+  expr: (column: string) => string; // ORDER BY / keyset expression
+  param: (n: number) => string; // placeholder compared against `expr`
+  compare: (a: string, b: string) => number;
+};
+
+export const compareBytes = (a: string, b: string) => Buffer.compare(Buffer.from(a), Buffer.from(b));
+
+// Compares decimal strings exactly; Postgres sorts NaN above every number
+function compareDecimal(a: string, b: string): number {
+  if (special(a) || special(b)) return a === b ? 0 : special(a) ? 1 : -1;
+  const [ai = "", af = ""] = a.split(".");
+  const [bi = "", bf = ""] = b.split(".");
+  const scale = Math.max(af.length, bf.length);
+  const x = BigInt(ai + af.padEnd(scale, "0"));
+  const y = BigInt(bi + bf.padEnd(scale, "0"));
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+export function keyOrder(type: string): KeyOrder {
+  const quoted = (c: string) => `"${c}"`;
+  const native = (compare: KeyOrder["compare"]): KeyOrder => ({
+    expr: quoted,
+    param: n => `$${n}::${type}`,
+    compare,
+  });
+  switch (kind(type)) {
+    case "integer":
+    case "numeric":
+      return native(compareDecimal);
+    case "float":
+      return native((a, b) => Number(a) - Number(b));
+    case "boolean":
+    case "date":
+    case "timestamp":
+      return native(compareBytes);
+    default:
+      if (type === "uuid") return native(compareBytes);
+      // Strings compare bytewise under the "C" collation on both databases;
+      // other types are ordered by their text form the same way
+      return /^(text|character varying|character)\b/.test(type)
+        ? { expr: c => `${quoted(c)} COLLATE "C"`, param: n => `$${n}::text COLLATE "C"`, compare: compareBytes }
+        : { expr: c => `${quoted(c)}::text COLLATE "C"`, param: n => `$${n}::text`, compare: compareBytes };
+  }
+}
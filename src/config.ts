@@ -0,0 +1,297 @@
+import fs from "fs";
+import yaml from "js-yaml";
+
+/* ───────────── TYPES ───────────── */
+export type TableConfig = {
+  ignoreColumns: string[]; // never compared, so changes alone produce no update
+  matchKey: string[] | null; // rows match on these columns instead of the PK
+};
+
+// Declarative business rule over the reference rows a diff promotes (see rules.ts)
+export type RuleConfig = {
+  name: string;
+  table: string; // "schema.table" or bare table name
+  type: "order" | "noOverlap" | "acyclic";
+  // order: [from, to], from <= to; noOverlap: [start, end] of inclusive
+  // periods, null ends open; acyclic: [from, to] of an edge
+  columns: [string, string];
+  groupBy: string[]; // noOverlap: periods only compare within a group
+  severity: "error" | "warning"; // errors block the master changelog
+};
+
+// Named database of the promotion pipeline (see environments.ts). Passwords
+// never sit in the file: they come from an environment variable or a
+// pgpass-style file.
+export type EnvironmentConfig = {
+  host: string;
+  port: number;
+  database: string;
+  schema: string | null; // holds Liquibase's changelog tables; the first of `schemas` by default
+  ssl: boolean; // TLS without certificate verification, as for DB_HOST
+  user: string | null;
+  userEnv: string; // variable overriding `user`, <NAME>_DB_USERNAME by default
+  passwordEnv: string; // <NAME>_DB_PASSWORD by default
+  passfile: string | null; // read when the password variable is unset; PGPASSFILE or ~/.pgpass by default
+  upstream: string | null; // environment its changes are promoted from
+};
+
+export type Features = {
+  tables: boolean; // create / drop tables
+  columns: boolean; // add / alter / drop columns
+  foreignKeys: boolean;
+  indexes: boolean;
+  constraints: boolean; // unique and check constraints
+  data: boolean; // row inserts, updates and deletes
+  hashCheck: boolean; // skip unchanged tables via row hashes
+  snapshot: boolean; // snapshot.yaml of the target next to the diff
+  merge: boolean; // rows merged three-way against the previous diff directory
+  rules: boolean; // business rules checked on the promoted rows
+};
+
+export type DiffConfig = {
+  version: 1;
+  schemas: string[]; // the first one holds Liquibase's changelog tables
+  output: string; // diff directories are created below it
+  include: string[]; // table globs; empty selects every table
+  exclude: string[];
+  tables: Record<string, TableConfig>; // keyed by "schema.table" or bare table name
+  rules: RuleConfig[];
+  environments: Record<string, EnvironmentConfig>;
+  features: Features;
+};
+
+/* ───────────── DEFAULTS ───────────── */
+export const CONFIG_FILE = process.env.PLM_DIFF_CONFIG ?? "plm-diff.config.yaml";
+
+// Liquibase's own bookkeeping is never diffed, whatever the config says
+export const INTERNAL_TABLES = new Set(["databasechangelog", "databasechangeloglock"]);
+
+const DEFAULT_FEATURES: Features = {
+  tables: true,
+  columns: true,
+  foreignKeys: true,
+  indexes: true,
+  constraints: true,
+  data: true,
+  hashCheck: true,
+  snapshot: true,
+  merge: true,
+  rules: true,
+};
+
+export const DEFAULT_CONFIG: DiffConfig = {
+  version: 1,
+  schemas: ["public"],
+  output: "db/diff",
+  include: [],
+  exclude: [],
+  tables: {},
+  rules: [],
+  environments: {},
+  features: DEFAULT_FEATURES,
+};
+
+/* ───────────── VALIDATION ───────────── */
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isStringList = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every(s => typeof s === "string" && s.length > 0);
+
+const unknownKeys = (v: Record<string, unknown>, known: string[], at: string, errors: string[]) =>
+  Object.keys(v)
+    .filter(k => !known.includes(k))
+    .forEach(k => errors.push(`${at}${k}: unknown key, expected one of ${known.join(", ")}`));
+
+function tableConfig(name: string, v: unknown, errors: string[]): TableConfig {
+  const at = `tables.${name}`;
+  if (!isObject(v)) {
+    errors.push(`${at}: expected a mapping with ignoreColumns and/or matchKey`);
+    return { ignoreColumns: [], matchKey: null };
+  }
+  unknownKeys(v, ["ignoreColumns", "matchKey"], `${at}.`, errors);
+  const { ignoreColumns = [], matchKey = null } = v;
+  if (!isStringList(ignoreColumns)) errors.push(`${at}.ignoreColumns: expected a list of column names`);
+  if (matchKey !== null && (!isStringList(matchKey) || !matchKey.length))
+    errors.push(`${at}.matchKey: expected a non-empty list of column names`);
+  if (isStringList(ignoreColumns) && isStringList(matchKey))
+    matchKey
+      .filter(c => ignoreColumns.includes(c))
+      .forEach(c => errors.push(`${at}: column '${c}' is both ignored and part of the matchKey`));
+  return {
+    ignoreColumns: isStringList(ignoreColumns) ? ignoreColumns : [],
+    matchKey: isStringList(matchKey) ? matchKey : null,
+  };
+}
+
+const RULE_TYPES = ["order", "noOverlap", "acyclic"];
+
+function ruleConfig(v: unknown, i: number, errors: string[]): RuleConfig | null {
+  const at = `rules[${i}]`;
+  if (!isObject(v)) {
+    errors.push(`${at}: expected a mapping with name, table, type and columns`);
+    return null;
+  }
+  unknownKeys(v, ["name", "table", "type", "columns", "groupBy", "severity"], `${at}.`, errors);
+  const { name, table, type, columns, groupBy = [], severity = "error" } = v;
+  const before = errors.length;
+  if (typeof name !== "string" || !name) errors.push(`${at}.name: expected a rule name`);
+  if (typeof table !== "string" || !table) errors.push(`${at}.table: expected a table name`);
+  if (typeof type !== "string" || !RULE_TYPES.includes(type)) errors.push(`${at}.type: expected one of ${RULE_TYPES.join(", ")}`);
+  if (!isStringList(columns) || columns.length !== 2) errors.push(`${at}.columns: expected two column names`);
+  if (!isStringList(groupBy)) errors.push(`${at}.groupBy: expected a list of column names`);
+  else if (groupBy.length && type !== "noOverlap") errors.push(`${at}.groupBy: only noOverlap rules group rows`);
+  if (severity !== "error" && severity !== "warning") errors.push(`${at}.severity: expected error or warning`);
+  if (errors.length > before) return null;
+  return { name, table, type, columns, groupBy, severity } as RuleConfig;
+}
+
+// Names are directory names below `output` too
+const ENVIRONMENT_NAME = /^[a-z][a-z0-9_-]*$/;
+const ENVIRONMENT_KEYS = ["host", "port", "database", "schema", "ssl", "user", "userEnv", "passwordEnv", "passfile", "upstream"];
+
+const envName = (name: string) => name.toUpperCase().replace(/-/g, "_");
+
+function environmentConfig(name: string, v: unknown, errors: string[]): EnvironmentConfig | null {
+  const at = `environments.${name}`;
+  if (!ENVIRONMENT_NAME.test(name)) errors.push(`${at}: expected a lowercase name of letters, digits, _ and -`);
+  if (!isObject(v)) {
+    errors.push(`${at}: expected a mapping with host and database`);
+    return null;
+  }
+  unknownKeys(v, ENVIRONMENT_KEYS, `${at}.`, errors);
+  const { host, port = 5432, database, schema = null, ssl = true, user = null, passfile = null, upstream = null } = v;
+  const { userEnv = `${envName(name)}_DB_USERNAME`, passwordEnv = `${envName(name)}_DB_PASSWORD` } = v;
+  const isName = (x: unknown) => typeof x === "string" && x.length > 0;
+  const before = errors.length;
+  if (!isName(host)) errors.push(`${at}.host: expected a host name`);
+  if (!Number.isInteger(port) || (port as number) < 1 || (port as number) > 65535) errors.push(`${at}.port: expected a port number`);
+  if (!isName(database)) errors.push(`${at}.database: expected a database name`);
+  if (schema !== null && !isName(schema)) errors.push(`${at}.schema: expected a schema name`);
+  if (typeof ssl !== "boolean") errors.push(`${at}.ssl: expected true or false`);
+  if (user !== null && !isName(user)) errors.push(`${at}.user: expected a user name`);
+  if (!isName(userEnv)) errors.push(`${at}.userEnv: expected an environment variable name`);
+  if (!isName(passwordEnv)) errors.push(`${at}.passwordEnv: expected an environment variable name`);
+  if (passfile !== null && !isName(passfile)) errors.push(`${at}.passfile: expected a file path`);
+  if (upstream !== null && !isName(upstream)) errors.push(`${at}.upstream: expected an environment name`);
+  if (errors.length > before) return null;
+  return { host, port, database, schema, ssl, user, userEnv, passwordEnv, passfile, upstream } as EnvironmentConfig;
+}
+
+// Upstreams name another environment and never lead back to where they started
+function checkPipeline(environments: Record<string, EnvironmentConfig>, errors: string[]) {
+  for (const [name, env] of Object.entries(environments)) {
+    if (env.upstream !== null && !environments[env.upstream]) {
+      errors.push(`environments.${name}.upstream: unknown environment '${env.upstream}'`);
+      continue;
+    }
+    const seen = new Set([name]);
+    for (let up = env.upstream; up !== null; up = environments[up]?.upstream ?? null) {
+      if (!seen.has(up)) {
+        seen.add(up);
+        continue;
+      }
+      if (up === name) errors.push(`environments.${name}.upstream: the chain of upstreams leads back to '${name}'`);
+      break;
+    }
+  }
+}
+
+// Every problem is reported at once, so the file can be fixed in one go
+export function validateConfig(raw: unknown, file = CONFIG_FILE): DiffConfig {
+  const errors: string[] = [];
+  if (!isObject(raw)) throw new Error(`${file}: expected a mapping at the top level`);
+  unknownKeys(raw, Object.keys(DEFAULT_CONFIG), "", errors);
+
+  const { version, schemas = DEFAULT_CONFIG.schemas, output = DEFAULT_CONFIG.output } = raw;
+  const { include = [], exclude = [], tables = {}, rules = [], environments = {}, features = {} } = raw;
+  if (version !== 1) errors.push(`version: expected 1, got ${JSON.stringify(version ?? null)}`);
+  if (!isStringList(schemas) || !schemas.length) errors.push("schemas: expected a non-empty list of schema names");
+  else schemas
+    .filter((s, i) => schemas.indexOf(s) !== i)
+    .forEach(s => errors.push(`schemas: '${s}' is listed twice`));
+  if (typeof output !== "string" || !output.trim() || output.startsWith("/") || output.split("/").includes(".."))
+    errors.push("output: expected a directory path relative to the repository root");
+  if (!isStringList(include)) errors.push("include: expected a list of table globs");
+  if (!isStringList(exclude)) errors.push("exclude: expected a list of table globs");
+
+  if (!isObject(tables)) errors.push("tables: expected a mapping of table name to settings");
+  const tableConfigs = isObject(tables)
+    ? Object.fromEntries(Object.entries(tables).map(([t, v]) => [t, tableConfig(t, v, errors)]))
+    : {};
+
+  if (!Array.isArray(rules)) errors.push("rules: expected a list of business rules");
+  const ruleConfigs = Array.isArray(rules) ? rules.map((r, i) => ruleConfig(r, i, errors)).filter(r => r !== null) : [];
+  ruleConfigs
+    .filter((r, i) => ruleConfigs.findIndex(o => o.name === r.name) !== i)
+    .forEach(r => errors.push(`rules: '${r.name}' is defined twice`));
+
+  if (!isObject(environments)) errors.push("environments: expected a mapping of environment name to connection");
+  const environmentConfigs = isObject(environments)
+    ? Object.fromEntries(
+        Object.entries(environments).flatMap(([name, v]) => {
+          const env = environmentConfig(name, v, errors);
+          return env ? [[name, env]] : [];
+        })
+      )
+    : {};
+  checkPipeline(environmentConfigs, errors);
+
+  if (!isObject(features)) errors.push("features: expected a mapping of feature to true / false");
+  else {
+    unknownKeys(features, Object.keys(DEFAULT_FEATURES), "features.", errors);
+    Object.entries(features)
+      .filter(([, v]) => typeof v !== "boolean")
+      .forEach(([k]) => errors.push(`features.${k}: expected true or false`));
+  }
+
+  if (errors.length) throw new Error(`Invalid ${file}:\n${errors.map(e => `  - ${e}`).join("\n")}`);
+  return {
+    version: 1,
+    schemas: schemas as string[],
+    output: (output as string).replace(/^\.\//, "").replace(/\/+$/, ""),
+    include: include as string[],
+    exclude: exclude as string[],
+    tables: tableConfigs,
+    rules: ruleConfigs,
+    environments: environmentConfigs,
+    features: { ...DEFAULT_FEATURES, ...(features as Partial<Features>) },
+  };
+}
+
+/* ───────────── LOADING ───────────── */
+// Without a config file the defaults reproduce the previous hard-coded behaviour
+export function loadConfig(file = CONFIG_FILE): DiffConfig {
+  if (!fs.existsSync(file)) return DEFAULT_CONFIG;
+  let raw: unknown;
+  try {
+    raw = yaml.load(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(`${file} is not valid YAML: ${(err as Error).message}`);
+  }
+  return validateConfig(raw, file);
+}
+
+export const bareName = (name: string) => name.slice(name.indexOf(".") + 1);
+
+// `*` matches any run of characters, `?` a single one. A glob containing "."
+// is matched against "schema.table", any other against the bare table name.
+const globMatcher = (glob: string) => {
+  const pattern = new RegExp(
+    `^${glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`
+  );
+  return (name: string) => pattern.test(glob.includes(".") ? name : bareName(name));
+};
+
+// Selection of "schema.table" names
+export const tableFilter = (config: DiffConfig) => {
+  const include = config.include.map(globMatcher);
+  const exclude = config.exclude.map(globMatcher);
+  return (name: string) =>
+    !INTERNAL_TABLES.has(bareName(name)) &&
+    (!include.length || include.some(m => m(name))) &&
+    !exclude.some(m => m(name));
+};
+
+export const tableConfigOf = (config: DiffConfig, name: string): TableConfig =>
+  config.tables[name] ?? config.tables[bareName(name)] ?? { ignoreColumns: [], matchKey: null };
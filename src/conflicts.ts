@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import type { PgText } from "./codec.js";
+
+/*
+ * Rows the reference and the target both changed since the common ancestor
+ * of a three-way diff. The diff writes them to conflicts.yaml with no
+ * resolution; a human picks a side per row, `npm run resolve` writes the
+ * changeSets of rows taken from the reference to conflicts-changelog.yaml,
+ * and sync refuses the directory until both files agree.
+ */
+
+/* ───────────── TYPES ───────────── */
+export type Resolution = "reference" | "target";
+
+export type ConflictColumn = { column: string; ancestor: PgText; reference: PgText; target: PgText };
+
+export type Conflict = {
+  table: string;
+  key: string;
+  change: "insert" | "update" | "delete"; // what taking the reference's side does
+  columns: ConflictColumn[];
+  resolution: Resolution | null;
+  changeSet: string; // applied when resolved to the reference
+};
+
+export type ConflictFile = {
+  diffPath: string;
+  ancestor: string;
+  conflicts: Conflict[];
+};
+
+export const CONFLICTS_FILE = "conflicts.yaml";
+export const CONFLICTS_CHANGELOG = "conflicts-changelog.yaml";
+
+const RESOLUTIONS: Resolution[] = ["reference", "target"];
+
+/* ───────────── CHANGELOG ───────────── */
+// ChangeSets of the rows resolved to the reference, in conflicts.yaml order
+export function conflictsChangeLog(conflicts: Conflict[]): string {
+  const taken = conflicts.filter(c => c.resolution === "reference");
+  return taken.length ? `databaseChangeLog:\n${taken.map(c => `${c.changeSet.trimEnd()}\n`).join("")}` : "databaseChangeLog: []\n";
+}
+
+/* ───────────── READ & WRITE ───────────── */
+const HEADER = `# Rows changed on both the reference and the target since the ancestor.
+# Set each resolution to \`reference\` (apply the reference's row) or \`target\`
+# (keep the target's), then run \`npm run resolve\`. Sync refuses this
+# directory while a resolution is missing.
+`;
+
+export function writeConflicts(outDir: string, file: ConflictFile) {
+  fs.writeFileSync(path.join(outDir, CONFLICTS_FILE), `${HEADER}${yaml.dump(file, { lineWidth: -1, noRefs: true })}`);
+  fs.writeFileSync(path.join(outDir, CONFLICTS_CHANGELOG), conflictsChangeLog(file.conflicts));
+}
+
+// The directory's conflicts.yaml; null when the diff found no conflicts
+export function readConflicts(dir: string): ConflictFile | null {
+  const file = path.join(dir, CONFLICTS_FILE);
+  if (!fs.existsSync(file)) return null;
+  const doc = yaml.load(fs.readFileSync(file, "utf8")) as ConflictFile | null;
+  if (!Array.isArray(doc?.conflicts)) throw new Error(`${file}: no conflicts list at the top level`);
+  return doc;
+}
+
+// Why the directory cannot be applied yet, or null once every conflict is
+// resolved and conflicts-changelog.yaml is written from the resolutions
+export function conflictProblem(dir: string): string | null {
+  const file = readConflicts(dir);
+  if (!file) return null;
+  const open = file.conflicts.filter(c => !RESOLUTIONS.includes(c.resolution as Resolution));
+  if (open.length)
+    return `${open.length} of ${file.conflicts.length} conflicts in ${path.join(dir, CONFLICTS_FILE)} need a resolution (${RESOLUTIONS.join(" or ")})`;
+  const changeLog = path.join(dir, CONFLICTS_CHANGELOG);
+  const written = fs.existsSync(changeLog) ? fs.readFileSync(changeLog, "utf8") : null;
+  if (written !== conflictsChangeLog(file.conflicts))
+    return `${changeLog} does not match the resolutions in ${CONFLICTS_FILE}; run \`npm run resolve\``;
+  return null;
+}
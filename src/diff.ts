@@ -1,16 +1,73 @@
-import { Client, types } from "pg";
+import { Client, types, type ClientConfig } from "pg";
+import { createHash } from "crypto";
 import fs from "fs";
 import path from "path";
+import { pathToFileURL } from "url";
 import { configDotenv } from "dotenv";
 import { Liquibase, POSTGRESQL_DEFAULT_CONFIG } from "liquibase";
+import {
+  encodeValue,
+  sameValue,
+  sqlCondition,
+  sqlLiteral,
+  yamlVal,
+  type PgText,
+} from "./codec.js";
+import { CONFIG_FILE, loadConfig, tableConfigOf, tableFilter } from "./config.js";
+import { CONFLICTS_CHANGELOG, CONFLICTS_FILE, writeConflicts, type Conflict } from "./conflicts.js";
+import { connectionOf, environment, jdbcUrlOf, unappliedIn, type Environment } from "./environments.js";
+import { components } from "./graph.js";
+import { appliedChangeSets, diffDirectories, unappliedDirectories } from "./history.js";
+import { appliedSource, offlineSource } from "./offline.js";
+import { checkRules, loadRules, rulesOf, type Finding } from "./rules.js";
+import { adminClient, dropScratch, restoreScratch, scratchConnection, scratchLiquibase } from "./scratch.js";
+import {
+  emptyTableReport,
+  writeReport,
+  type DiffReport,
+  type FkCycle,
+  type HashSummary,
+  type RowUpdate,
+  type TableHash,
+  type TableReport,
+} from "./report.js";
+import {
+  compareRows,
+  FULL_RANGE,
+  groupTerms,
+  pagesOf,
+  pgSource,
+  sortTerms,
+  splitName,
+  sqlName,
+  translated,
+  type Column,
+  type FK,
+  type Index,
+  type KeyRange,
+  type KeyRef,
+  type Row,
+  type RowPlan,
+  type RowQuery,
+  type SortTerm,
+  type Source,
+  type TableConstraint,
+} from "./source.js";
 
 types.setTypeParser(1082, (v: string) => v); // DATE as string
 configDotenv();
-const output = process.env.GITHUB_OUTPUT;
 
 /* ───────────── CONFIG ───────────── */
-const TS = new Date().toISOString().replace(/[:.]/g, "-");
-const OUT = path.resolve(`db/diff/${TS}`);
+const config = loadConfig();
+const SCHEMAS = config.schemas;
+const selected = tableFilter(config);
+const features = config.features;
+
+// Name and directory of the diff being generated, and the output it sits
+// below: the configured one, or the target environment's; one runs at a time
+let TS = "";
+let OUT = "";
+let OUTPUT = config.output;
 
 const DB_BASE = {
   host: process.env.DB_HOST,
@@ -20,345 +77,1409 @@ const DB_BASE = {
   ssl: { rejectUnauthorized: false },
 };
 
-const DB_REF = { ...DB_BASE, database: process.env.DB_REFERENCE };
-const DB_TGT = { ...DB_BASE, database: process.env.DB_TARGET };
+// Either side may sit on another server, e.g. the scratch database of
+// `validate` (target) or `drift` (reference)
+const serverOf = (side: "REFERENCE" | "TARGET") => ({
+  ...DB_BASE,
+  host: process.env[`DB_${side}_HOST`] ?? DB_BASE.host,
+  port: Number(process.env[`DB_${side}_PORT`] ?? DB_BASE.port),
+  user: process.env[`DB_${side}_USERNAME`] ?? DB_BASE.user,
+  password: process.env[`DB_${side}_PASSWORD`] ?? DB_BASE.password,
+  ssl: process.env[`DB_${side}_SSL`] === "false" ? false : DB_BASE.ssl,
+  database: process.env[`DB_${side}`],
+});
+const DB_REF = serverOf("REFERENCE");
+const DB_TGT = serverOf("TARGET");
 
-const INTERNAL_TABLES = new Set(["databasechangelog", "databasechangeloglock"]);
+// Updated rows per table listed before → after in the report
+const REPORT_SAMPLE = 500;
 
 /* ───────────── HELPERS ───────────── */
+const sha1 = (v: string | Buffer) => createHash("sha1").update(v).digest("hex");
+
+// schemaName and tableName attributes of a change
+const tableAttrs = (name: string) => {
+  const { schema, table } = splitName(name);
+  return `schemaName: ${schema}\n          tableName: ${table}`;
+};
+
 const wrap = (lines: string[]) => `databaseChangeLog:\n${lines.join("\n")}\n`;
-const yamlVal = (v: any) =>
-  v === null
-    ? "null"
-    : typeof v === "number" || typeof v === "boolean"
-    ? v
-    : `'${String(v).replace(/'/g, "''")}'`;
-
-const rowKey = (row: Record<string, any>, pk: string[]) =>
-  pk.map(k => String(row[k])).join("|");
-
-const whereClause = (row: Record<string, any>, pk: string[]) =>
-  pk.map(k => `${k} = ${yamlVal(row[k])}`).join(" AND ");
-
-function toArray(v: any): string[] {
-  if (Array.isArray(v)) return v;
-  if (typeof v === "string") return v.replace(/[{}"]/g, "").split(",").filter(Boolean);
-  return [];
-}
 
-/* ───────────── METADATA ───────────── */
-async function tables(c: Client): Promise<string[]> {
-  const r = await c.query(`
-    SELECT table_name
-    FROM information_schema.tables
-    WHERE table_schema='public'
-      AND table_type='BASE TABLE'
-  `);
-  return r.rows.map(r => r.table_name).filter(t => !INTERNAL_TABLES.has(t));
+// Values written as SQL expressions instead of literals, by column
+type Computed = Map<string, string>;
+
+// SQL conditions matching the row on the given columns
+const rowConditions = (
+  row: Record<string, PgText>,
+  cols: string[],
+  types: Map<string, string>,
+  computed: Computed = new Map()
+) =>
+  cols
+    .map(c => (computed.has(c) ? `"${c}" = ${computed.get(c)}` : sqlCondition(types.get(c) ?? "text", c, row[c] ?? null)))
+    .join(" AND ");
+
+// What a changeSet changes. `repeat` numbers identical rows of a table without a key.
+type ChangeSetId = { table: string; op: string; key?: string; repeat?: number };
+
+// Keeps [A-Za-z0-9._-] and percent-encodes every other byte, so ids hold no
+// quotes, spaces, "|" or "/"; long keys are cut and end in a hash instead
+const escapeKey = (key: string) => {
+  const escaped = [...Buffer.from(key)]
+    .map(b => String.fromCharCode(b))
+    .map(ch => (/[A-Za-z0-9._-]/.test(ch) ? ch : `%${ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`))
+    .join("");
+  return escaped.length > 80 ? `${escaped.slice(0, 64)}~${sha1(key).slice(0, 12)}` : escaped;
+};
+
+// <diff timestamp>/<table>/<key>/<operation>/<content hash>: unique across
+// diff directories and changed whenever the generated changes are
+const changeSetId = ({ table, op, key, repeat }: ChangeSetId, changes: string) =>
+  [
+    TS,
+    escapeKey(table),
+    key === undefined ? "-" : `${escapeKey(key)}${repeat && repeat > 1 ? `~${repeat}` : ""}`,
+    op,
+    sha1(changes).slice(0, 10),
+  ].join("/");
+
+// `changes` and `rollback` are runs of `      - <change>:` blocks, each starting
+// on a new line. An empty rollback marks the changeSet as a no-op to undo.
+const changeSet = (id: ChangeSetId, changes: string, rollback: string) => `
+- changeSet:
+    id: ${changeSetId(id, changes)}
+    author: auto
+    changes:${changes}
+    rollback:${rollback || " ''"}
+`.trim();
+
+/* ───────────── TABLE CHANGES ───────────── */
+// Liquibase spelling of the Postgres type, as in the generated snapshot.yaml
+const liquibaseType = (pgType: string) =>
+  pgType
+    .replace(/^character varying/, "VARCHAR")
+    .replace(/^character\b/, "CHAR")
+    .replace(/^(bigint|integer|smallint|boolean|text)\b/, m => m.toUpperCase());
+
+// Serial columns own a sequence that is not an identity
+const isSerial = (c: Column) => c.identity === "" && c.sequence !== null;
+
+// Column body shared by createTable and addColumn, indented under `- column:`
+function columnYaml(c: Column): string {
+  const lines = [`name: ${c.column_name}`, `type: ${liquibaseType(c.data_type)}`];
+  if (c.identity) {
+    lines.push(
+      "autoIncrement: true",
+      `generationType: ${c.identity === "a" ? "ALWAYS" : "BY DEFAULT"}`
+    );
+    if (c.seq_start !== null) lines.push(`startWith: ${c.seq_start}`);
+    if (c.seq_increment !== null) lines.push(`incrementBy: ${c.seq_increment}`);
+  } else if (c.column_default !== null) {
+    lines.push(`defaultValueComputed: ${yamlVal(c.column_default)}`);
+  }
+  if (c.remarks !== null) lines.push(`remarks: ${yamlVal(c.remarks)}`);
+  return lines.map(l => `                ${l}`).join("\n");
 }
 
-async function columns(c: Client, t: string) {
-  const r = await c.query(`
-    SELECT column_name, data_type, is_nullable
-    FROM information_schema.columns
-    WHERE table_schema='public' AND table_name='${t}'
-    ORDER BY ordinal_position
-  `);
-  return r.rows;
+// createSequence changes that must precede a table using nextval() defaults
+const createSequences = (table: string, cols: Column[]) =>
+  cols.filter(isSerial).map(c => `
+      - createSequence:
+          schemaName: ${splitName(table).schema}
+          sequenceName: ${c.sequence}
+          dataType: ${c.seq_type}
+          startValue: ${c.seq_start}
+          incrementBy: ${c.seq_increment}`).join("");
+
+// Ties each serial sequence to its column so dropping the table drops it too
+const ownSequences = (table: string, cols: Column[]) =>
+  cols.filter(isSerial).map(c => `
+      - sql:
+          sql: ${yamlVal(`ALTER SEQUENCE "${splitName(table).schema}"."${c.sequence}" OWNED BY ${sqlName(table)}."${c.column_name}"`)}`).join("");
+
+// Rows are copied with explicit keys, so move sequences past the highest value
+const syncSequences = (table: string, cols: Column[]) =>
+  cols.filter(c => c.sequence !== null).map(c => changeSet({ table, op: "sync-sequence", key: c.column_name }, `
+      - sql:
+          sql: ${yamlVal(`SELECT setval(pg_get_serial_sequence('${sqlName(table)}', '${c.column_name}'), COALESCE(MAX("${c.column_name}"), 1)) FROM ${sqlName(table)}`)}`, ""));
+
+// Sequences, table, primary key and sequence ownership of a new table
+const createTableChanges = (table: string, cols: Column[], pk: string[]) => `${createSequences(table, cols)}
+      - createTable:
+          ${tableAttrs(table)}
+          columns:
+${cols.map(c => `            - column:
+${columnYaml(c)}
+                constraints:
+                  nullable: ${c.is_nullable === "YES"}`).join("\n")}${pk.length ? `
+      - addPrimaryKey:
+          ${tableAttrs(table)}
+          columnNames: ${pk.join(", ")}` : ""}${ownSequences(table, cols)}`;
+
+// Owned sequences go with the table
+const dropTableChange = (table: string, cascade = false) => `
+      - dropTable:
+          ${tableAttrs(table)}${cascade ? `
+          cascadeConstraints: true` : ""}`;
+
+const createSchemaChange = (schema: string) => `
+      - sql:
+          sql: ${yamlVal(`CREATE SCHEMA "${schema}"`)}`;
+
+const dropSchemaChange = (schema: string) => `
+      - sql:
+          sql: ${yamlVal(`DROP SCHEMA "${schema}"`)}`;
+
+// Everything that defines an FK's behaviour; any difference means drop + re-add
+const fkKey = (f: FK) =>
+  [
+    f.name,
+    f.child,
+    f.parent,
+    f.childCols.join(","),
+    f.parentCols.join(","),
+    f.onUpdate,
+    f.onDelete,
+    f.deferrable,
+    f.initiallyDeferred,
+  ].join("|");
+
+/* ───────────── TOPO SORT ───────────── */
+// FK edges between different tables; self-references are ordered row by row
+const tableEdges = (tables: string[], fks: FK[]) => {
+  const next = new Map(tables.map(t => [t, [] as FK[]]));
+  fks.filter(f => f.child !== f.parent && next.has(f.child) && next.has(f.parent)).forEach(f => next.get(f.child)!.push(f));
+  return next;
+};
+
+// Parents first, or children first with `reverse`. FKs in `broken` are left
+// out; tables of a cycle that is not broken keep the order they are found in.
+function topoSort(tables: string[], fks: FK[], reverse = false, broken: Set<FK> = new Set()): string[] {
+  const next = tableEdges(tables, fks.filter(f => !broken.has(f)));
+  const order = components(tables, t => next.get(t)!.map(f => f.parent)).flat();
+  return reverse ? order.reverse() : order;
 }
 
-async function pks(c: Client): Promise<Map<string, string[]>> {
-  const r = await c.query(`
-    SELECT tc.table_name, kcu.column_name
-    FROM information_schema.table_constraints tc
-    JOIN information_schema.key_column_usage kcu
-      ON tc.constraint_name = kcu.constraint_name
-    WHERE tc.constraint_type='PRIMARY KEY' AND tc.table_schema='public'
-  `);
-  const m = new Map<string, string[]>();
-  r.rows.forEach(r => {
-    if (!m.has(r.table_name)) m.set(r.table_name, []);
-    m.get(r.table_name)!.push(r.column_name);
-  });
-  return m;
+/**
+ * FK cycles between tables, each broken at FKs whose columns are all
+ * nullable: rows are written with those columns null and a follow-up
+ * changeSet sets them once every row is in. A cycle without such an FK is
+ * reported as unresolved; its changes may fail on the target.
+ */
+function breakCycles(tables: string[], fks: FK[], nullable: (table: string, column: string) => boolean) {
+  const broken = new Set<FK>();
+  const cycles: FkCycle[] = [];
+  const cyclic = (members: string[]) => {
+    const next = tableEdges(members, fks.filter(f => !broken.has(f)));
+    return components(members, t => next.get(t)!.map(f => f.parent)).filter(c => c.length > 1);
+  };
+  for (const members of cyclic(tables)) {
+    const cycle: FkCycle = { tables: members, deferred: [], resolved: true };
+    for (let left = cyclic(members); left.length; left = cyclic(members)) {
+      const within = new Set(left[0]);
+      const candidate = fks
+        .filter(f => !broken.has(f) && f.child !== f.parent && within.has(f.child) && within.has(f.parent))
+        .sort((a, b) => `${a.child}.${a.name}`.localeCompare(`${b.child}.${b.name}`))
+        .find(f => f.childCols.every(c => nullable(f.child, c)));
+      if (!candidate) {
+        cycle.resolved = false;
+        break;
+      }
+      broken.add(candidate);
+      cycle.deferred.push(`${candidate.child}.${candidate.name}`);
+    }
+    cycles.push(cycle);
+  }
+  return { broken, cycles };
 }
 
-type FK = {
-  name: string;
-  child: string;
-  parent: string;
-  childCols: string[];
-  parentCols: string[];
-};
+// A held changeSet: the values of each self-referencing FK, null where a
+// child column is, and where the changeSet lies in the spill file
+type Held = { child: (string | null)[]; parent: string[]; at: number; bytes: number };
 
-async function fks(c: Client): Promise<FK[]> {
-  const r = await c.query(`
-    SELECT
-      con.conname,
-      src.relname AS child,
-      tgt.relname AS parent,
-      array_agg(sa.attname ORDER BY s.pos) AS child_cols,
-      array_agg(ta.attname ORDER BY s.pos) AS parent_cols
-    FROM pg_constraint con
-    JOIN pg_class src ON src.oid = con.conrelid
-    JOIN pg_class tgt ON tgt.oid = con.confrelid
-    CROSS JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS s(attnum, pos)
-    CROSS JOIN LATERAL unnest(con.confkey) WITH ORDINALITY AS t(attnum, pos)
-    JOIN pg_attribute sa
-      ON sa.attrelid = src.oid AND sa.attnum = s.attnum
-    JOIN pg_attribute ta
-      ON ta.attrelid = tgt.oid AND ta.attnum = t.attnum
-    WHERE con.contype = 'f' AND s.pos = t.pos
-    GROUP BY con.conname, src.relname, tgt.relname
-  `);
-
-  return r.rows.map(r => ({
-    name: r.conname,
-    child: r.child,
-    parent: r.parent,
-    childCols: toArray(r.child_cols),
-    parentCols: toArray(r.parent_cols),
-  }));
+// ChangeSets of a self-referencing table wait in a file of the diff
+// directory until they can be put in order; only their FK values stay in memory
+function heldChangeSets(table: string, fks: FK[]) {
+  const file = path.join(OUT, `.held-${table}`);
+  let fd: number | null = null;
+  let size = 0;
+  const values = (row: Row, cols: string[]) => JSON.stringify(cols.map(c => row[c] ?? null));
+  return {
+    hold(row: Row, changeSet: string): Held {
+      fd ??= fs.openSync(file, "w+");
+      const bytes = fs.writeSync(fd, changeSet);
+      size += bytes;
+      return {
+        child: fks.map(f => (f.childCols.some(c => row[c] == null) ? null : values(row, f.childCols))),
+        parent: fks.map(f => values(row, f.parentCols)),
+        at: size - bytes,
+        bytes,
+      };
+    },
+    read({ at, bytes }: Held) {
+      const buffer = Buffer.alloc(bytes);
+      fs.readSync(fd!, buffer, 0, bytes, at);
+      return buffer.toString("utf8");
+    },
+    close() {
+      if (fd === null) return;
+      fs.closeSync(fd);
+      fs.rmSync(file);
+    },
+  };
 }
 
-/* ───────────── TOPO SORT ───────────── */
-function topoSort(tables: string[], fks: FK[], reverse = false): string[] {
-  const g = new Map<string, Set<string>>();
-  tables.forEach(t => g.set(t, new Set()));
-  fks.forEach(f => {
-    if (!g.has(f.child) || !g.has(f.parent)) return;
-    reverse
-      ? g.get(f.parent)!.add(f.child) // children first for delete
-      : g.get(f.child)!.add(f.parent); // parents first for insert
+// Held changeSets of a self-referencing table, each after the changeSet of
+// the row its FK values point at (before it with `reverse`). Rows pointing at
+// each other in a circle keep their key order.
+function rowOrder(held: Held[], reverse: boolean): Held[] {
+  const byParentKey = (held[0]?.parent ?? []).map((_, j) => {
+    const rows = new Map<string, string[]>();
+    held.forEach(({ parent }, i) => {
+      if (!rows.has(parent[j]!)) rows.set(parent[j]!, []);
+      rows.get(parent[j]!)!.push(String(i));
+    });
+    return rows;
   });
-  const seen = new Set<string>();
-  const out: string[] = [];
-  function visit(t: string) {
-    if (seen.has(t)) return;
-    seen.add(t);
-    g.get(t)?.forEach(visit);
-    out.push(t);
-  }
-  tables.forEach(visit);
-  return out;
+  const parents = (i: string) =>
+    held[Number(i)]!.child.flatMap((k, j) => (k === null ? [] : (byParentKey[j]!.get(k) ?? []).filter(p => p !== i)));
+  const order = components(held.map((_, i) => String(i)), parents).flat();
+  return (reverse ? order.reverse() : order).map(i => held[Number(i)]!);
 }
 
-/* ───────────── ROW DIFFS ───────────── */
-async function generateRowDiff(
+/* ───────────── COLUMN DIFFS ───────────── */
+// Schema changes on a table that exists on both sides. NOT NULL tightening is
+// returned separately so it can run after the data diffs have filled the column.
+function generateColumnDiff(
   table: string,
-  pk: string[],
-  ref: Client,
-  tgt: Client
-): Promise<{ inserts: string[]; updates: string[]; deletes: string[] }> {
-  const refRows = (await ref.query(`SELECT * FROM public."${table}"`)).rows;
-  let tgtRows: any[] = [];
-  try {
-    tgtRows = (await tgt.query(`SELECT * FROM public."${table}"`)).rows;
-  } catch {}
-  const refMap = new Map(refRows.map(r => [rowKey(r, pk), r]));
-  const tgtMap = new Map(tgtRows.map(r => [rowKey(r, pk), r]));
-
-  const inserts: string[] = [];
-  const updates: string[] = [];
-  const deletes: string[] = [];
-
-  // Deletes
-  tgtRows.filter(r => !refMap.has(rowKey(r, pk))).forEach(r => {
-    deletes.push(`
-- changeSet:
-    id: delete-${table}-${rowKey(r, pk)}
-    author: auto
-    changes:
-      - delete:
-          tableName: ${table}
-          where: ${whereClause(r, pk)}
-`.trim());
+  refCols: Column[],
+  tgtCols: Column[]
+): { alters: string[]; notNulls: string[] } {
+  const tgtByName = new Map(tgtCols.map(c => [c.column_name, c]));
+  const refNames = new Set(refCols.map(c => c.column_name));
+
+  const alters: string[] = [];
+  const notNulls: string[] = [];
+
+  const addNotNull = (c: Column) => `
+      - addNotNullConstraint:
+          ${tableAttrs(table)}
+          columnName: ${c.column_name}
+          columnDataType: ${liquibaseType(c.data_type)}`;
+  const dropNotNull = (c: Column) => `
+      - dropNotNullConstraint:
+          ${tableAttrs(table)}
+          columnName: ${c.column_name}
+          columnDataType: ${liquibaseType(c.data_type)}`;
+  const addDefault = (c: Column) => `
+      - addDefaultValue:
+          ${tableAttrs(table)}
+          columnName: ${c.column_name}
+          columnDataType: ${liquibaseType(c.data_type)}
+          defaultValueComputed: ${yamlVal(c.column_default)}`;
+  const dropDefault = (c: Column) => `
+      - dropDefaultValue:
+          ${tableAttrs(table)}
+          columnName: ${c.column_name}`;
+  const addColumn = (c: Column) => `${createSequences(table, [c])}
+      - addColumn:
+          ${tableAttrs(table)}
+          columns:
+            - column:
+${columnYaml(c)}${ownSequences(table, [c])}`;
+  const dropColumn = (c: Column) => `
+      - dropColumn:
+          ${tableAttrs(table)}
+          columnName: ${c.column_name}`;
+  const modifyType = (c: Column) => `
+      - modifyDataType:
+          ${tableAttrs(table)}
+          columnName: ${c.column_name}
+          newDataType: ${liquibaseType(c.data_type)}`;
+
+  for (const c of refCols) {
+    const t = tgtByName.get(c.column_name);
+
+    // Added column: created nullable, tightened once the rows are populated
+    if (!t) {
+      alters.push(changeSet({ table, op: "add-column", key: c.column_name }, addColumn(c), dropColumn(c)));
+      if (c.is_nullable === "NO") {
+        notNulls.push(changeSet({ table, op: "add-not-null", key: c.column_name }, addNotNull(c), dropNotNull(c)));
+      }
+      continue;
+    }
+
+    if (c.data_type !== t.data_type) {
+      alters.push(changeSet({ table, op: "modify-type", key: c.column_name }, modifyType(c), modifyType(t)));
+    }
+
+    if (c.is_nullable !== t.is_nullable) {
+      if (c.is_nullable === "NO") {
+        notNulls.push(changeSet({ table, op: "add-not-null", key: c.column_name }, addNotNull(c), dropNotNull(c)));
+      } else {
+        alters.push(changeSet({ table, op: "drop-not-null", key: c.column_name }, dropNotNull(c), addNotNull(t)));
+      }
+    }
+
+    if (!c.identity && c.column_default !== t.column_default) {
+      const previous = t.column_default !== null ? addDefault(t) : dropDefault(t);
+      if (c.column_default !== null) {
+        alters.push(changeSet({ table, op: "add-default", key: c.column_name }, addDefault(c), previous));
+      } else {
+        alters.push(changeSet({ table, op: "drop-default", key: c.column_name }, dropDefault(c), previous));
+      }
+    }
+  }
+
+  // Removed columns: the rollback restores the column, not its data
+  tgtCols.filter(t => !refNames.has(t.column_name)).forEach(t => {
+    alters.push(changeSet({ table, op: "drop-column", key: t.column_name }, dropColumn(t), addColumn(t)));
   });
 
-  // Inserts
-  refRows.filter(r => !tgtMap.has(rowKey(r, pk))).forEach(r => {
-    inserts.push(`
-- changeSet:
-    id: insert-${table}-${rowKey(r, pk)}
-    author: auto
-    changes:
+  return { alters, notNulls };
+}
+
+/* ───────────── INDEX & CONSTRAINT DIFFS ───────────── */
+// Matches objects by table and name; a changed definition counts as drop + add
+function diffByName<T extends { name: string; table: string; definition: string }>(
+  ref: T[],
+  tgt: T[]
+): { added: T[]; removed: T[] } {
+  const key = (o: T) => `${o.table}|${o.name}`;
+  const refMap = new Map(ref.map(o => [key(o), o]));
+  const tgtMap = new Map(tgt.map(o => [key(o), o]));
+  return {
+    added: ref.filter(o => tgtMap.get(key(o))?.definition !== o.definition),
+    removed: tgt.filter(o => refMap.get(key(o))?.definition !== o.definition),
+  };
+}
+
+const createIndexChange = (i: Index) => i.custom ? `
+      - sql:
+          sql: ${yamlVal(i.definition)}` : `
+      - createIndex:
+          indexName: ${i.name}
+          ${tableAttrs(i.table)}
+          unique: ${i.unique}
+          columns:
+${i.columns.map(c => `            - column:\n                name: ${c}`).join("\n")}`;
+
+const dropIndexChange = (i: Index) => `
+      - dropIndex:
+          indexName: ${i.name}
+          ${tableAttrs(i.table)}`;
+
+const addUniqueChange = (u: TableConstraint) => `
+      - addUniqueConstraint:
+          constraintName: ${u.name}
+          ${tableAttrs(u.table)}
+          columnNames: ${u.columns.join(",")}`;
+
+const dropUniqueChange = (u: TableConstraint) => `
+      - dropUniqueConstraint:
+          constraintName: ${u.name}
+          ${tableAttrs(u.table)}`;
+
+const addCheckChange = (k: TableConstraint) => `
+      - sql:
+          sql: ${yamlVal(`ALTER TABLE ${sqlName(k.table)} ADD CONSTRAINT "${k.name}" ${k.definition}`)}`;
+
+const dropCheckChange = (k: TableConstraint) => `
+      - sql:
+          sql: ${yamlVal(`ALTER TABLE ${sqlName(k.table)} DROP CONSTRAINT "${k.name}"`)}`;
+
+const createIndex = (i: Index) =>
+  changeSet({ table: i.table, op: "create-index", key: i.name }, createIndexChange(i), dropIndexChange(i));
+const dropIndex = (i: Index) =>
+  changeSet({ table: i.table, op: "drop-index", key: i.name }, dropIndexChange(i), createIndexChange(i));
+const addUniqueConstraint = (u: TableConstraint) =>
+  changeSet({ table: u.table, op: "add-unique", key: u.name }, addUniqueChange(u), dropUniqueChange(u));
+const dropUniqueConstraint = (u: TableConstraint) =>
+  changeSet({ table: u.table, op: "drop-unique", key: u.name }, dropUniqueChange(u), addUniqueChange(u));
+const addCheckConstraint = (k: TableConstraint) =>
+  changeSet({ table: k.table, op: "add-check", key: k.name }, addCheckChange(k), dropCheckChange(k));
+const dropCheckConstraint = (k: TableConstraint) =>
+  changeSet({ table: k.table, op: "drop-check", key: k.name }, dropCheckChange(k), addCheckChange(k));
+
+/* ───────────── FK DIFFS ───────────── */
+const addFKChange = (f: FK) => `
+      - addForeignKeyConstraint:
+          constraintName: ${f.name}
+          baseTableSchemaName: ${splitName(f.child).schema}
+          baseTableName: ${splitName(f.child).table}
+          baseColumnNames: ${f.childCols.join(",")}
+          referencedTableSchemaName: ${splitName(f.parent).schema}
+          referencedTableName: ${splitName(f.parent).table}
+          referencedColumnNames: ${f.parentCols.join(",")}
+          onUpdate: ${f.onUpdate}
+          onDelete: ${f.onDelete}
+          deferrable: ${f.deferrable}
+          initiallyDeferred: ${f.initiallyDeferred}`;
+
+const dropFKChange = (f: FK) => `
+      - dropForeignKeyConstraint:
+          constraintName: ${f.name}
+          baseTableSchemaName: ${splitName(f.child).schema}
+          baseTableName: ${splitName(f.child).table}`;
+
+/* ───────────── ROW DIFFS ───────────── */
+// bytea values are written next to the changelogs and loaded via valueBlobFile
+const writeBlob = (bytes: Buffer) => {
+  const name = `${sha1(bytes)}.bin`;
+  fs.mkdirSync(path.join(OUT, "blobs"), { recursive: true });
+  fs.writeFileSync(path.join(OUT, "blobs", name), bytes);
+  return `blobs/${name}`;
+};
+
+const columnValues = (entries: [string, PgText][], types: Map<string, string>, computed: Computed = new Map()) =>
+  entries
+    .map(([c, v]) => {
+      const sql = computed.get(c);
+      const { attr, value } = sql
+        ? { attr: "valueComputed", value: yamlVal(sql) }
+        : encodeValue(types.get(c) ?? "text", v, writeBlob);
+      return `            - column:\n                name: ${c}\n                ${attr}: ${value}`;
+    })
+    .join("\n");
+
+const insertChange = (table: string, entries: [string, PgText][], types: Map<string, string>, computed?: Computed) => `
       - insert:
-          tableName: ${table}
+          ${tableAttrs(table)}
           columns:
-${Object.entries(r)
-        .map(([c, v]) => `            - column:\n                name: ${c}\n                value: ${yamlVal(v)}`)
-        .join("\n")}
-`.trim());
-  });
+${columnValues(entries, types, computed)}`;
 
-  // Updates
-  refRows.filter(r => tgtMap.has(rowKey(r, pk))).forEach(r => {
-    const tRow = tgtMap.get(rowKey(r, pk))!;
-    const changedCols = Object.entries(r).filter(([c, v]) => String(tRow[c]) !== String(v));
-    if (!changedCols.length) return;
-    updates.push(`
-- changeSet:
-    id: update-${table}-${rowKey(r, pk)}
-    author: auto
-    changes:
+// GENERATED ALWAYS identity columns take a value only with OVERRIDING SYSTEM
+// VALUE, which the insert change cannot write
+const insertSqlChange = (table: string, entries: [string, PgText][], types: Map<string, string>, computed: Computed = new Map()) => {
+  const values = entries.map(([c, v]) => computed.get(c) ?? sqlLiteral(types.get(c) ?? "text", v));
+  return `
+      - sql:
+          sql: ${yamlVal(`INSERT INTO ${sqlName(table)} (${entries.map(([c]) => `"${c}"`).join(", ")}) OVERRIDING SYSTEM VALUE VALUES (${values.join(", ")})`)}`;
+};
+
+const updateChange = (
+  table: string,
+  entries: [string, PgText][],
+  types: Map<string, string>,
+  where: string,
+  computed?: Computed
+) => `
       - update:
-          tableName: ${table}
+          ${tableAttrs(table)}
           columns:
-${changedCols.map(([c, v]) => `            - column:\n                name: ${c}\n                value: ${yamlVal(v)}`).join("\n")}
-          where: ${whereClause(r, pk)}
-`.trim());
-  });
+${columnValues(entries, types, computed)}
+          where: ${yamlVal(where)}`;
+
+const deleteChange = (table: string, where: string) => `
+      - delete:
+          ${tableAttrs(table)}
+          where: ${yamlVal(where)}`;
+
+// Tables matched on the full row can hold identical rows; remove only one
+const deleteOneChange = (table: string, where: string) => `
+      - sql:
+          sql: ${yamlVal(`DELETE FROM ${sqlName(table)} WHERE ctid = (SELECT ctid FROM ${sqlName(table)} WHERE ${where} LIMIT 1)`)}`;
+
+// Table columns of a streamed row, without the __ helper values
+const columnsOf = (row: Row) => Object.entries(row).filter(([c]) => !c.startsWith("__"));
+
+type ChangeLogWriter = { name: string; write: (changeSet: string) => void; close: () => number };
+
+// Changelog written changeSet by changeSet; the file appears with the first one
+function changeLogWriter(name: string): ChangeLogWriter {
+  let fd: number | null = null;
+  let count = 0;
+  return {
+    name,
+    write(changeSet) {
+      if (fd === null) {
+        fd = fs.openSync(path.join(OUT, name), "w");
+        fs.writeSync(fd, "databaseChangeLog:\n");
+      }
+      fs.writeSync(fd, `${changeSet}\n`);
+      count++;
+    },
+    close() {
+      if (fd !== null) fs.closeSync(fd);
+      return count;
+    },
+  };
+}
+
+/* ───────────── BUSINESS KEYS ───────────── */
+// FK columns of the table compared and written through the parent's match key
+async function businessKeyRefs(
+  c: Source,
+  table: string,
+  fks: FK[],
+  pkMap: Map<string, string[]>,
+  existing: string[]
+): Promise<Map<string, KeyRef>> {
+  const refs = new Map<string, KeyRef>();
+  for (const f of fks) {
+    const [column, parentCol] = [f.childCols[0]!, f.parentCols[0]!];
+    const { matchKey } = tableConfigOf(config, f.parent);
+    if (f.child !== table || f.childCols.length !== 1 || !matchKey || !existing.includes(f.parent)) continue;
+    if ((pkMap.get(f.parent) ?? []).join() !== parentCol || matchKey.includes(parentCol)) continue;
+    const types = new Map((await c.columns(f.parent)).map(c => [c.column_name, c.data_type]));
+    refs.set(column, { column, parent: f.parent, parentCol, keyCols: matchKey, keyTypes: matchKey.map(k => types.get(k) ?? "text") });
+  }
+  return refs;
+}
+
+// Finds the parent by its business key wherever the changelog is applied
+const keyRefLookup = (k: KeyRef, key: string) => {
+  const values: PgText[] = JSON.parse(key);
+  const where = k.keyCols.map((c, i) => sqlCondition(k.keyTypes[i]!, c, values[i] ?? null)).join(" AND ");
+  return `(SELECT "${k.parentCol}" FROM ${sqlName(k.parent)} WHERE ${where})`;
+};
+
+function rowPlan(table: string, pk: string[], refCols: Column[], tgtCols: Column[], keyRefs: Map<string, KeyRef>): RowPlan {
+  const { ignoreColumns, matchKey } = tableConfigOf(config, table);
+  const unknown = [...ignoreColumns, ...(matchKey ?? [])].find(c => !refCols.some(r => r.column_name === c));
+  if (unknown) throw new Error(`${CONFIG_FILE}: table '${table}' has no column '${unknown}'`);
+
+  // With a match key the PK is a surrogate, generated independently on each side
+  const surrogate = matchKey ? pk.filter(c => !matchKey.includes(c)) : [];
+  const compared = refCols
+    .map(c => c.column_name)
+    .filter(c => !ignoreColumns.includes(c) && !surrogate.includes(c));
+  const omitOnInsert = new Set(
+    refCols
+      .filter(c => surrogate.includes(c.column_name) && (c.identity || c.column_default !== null))
+      .map(c => c.column_name)
+  );
+  if (matchKey) return { mode: "matchKey", keyCols: matchKey, compared, omitOnInsert, keyRefs };
+  // PK values are taken as they are
+  if (pk.length) {
+    const refs = new Map([...keyRefs].filter(([c]) => !pk.includes(c)));
+    return { mode: "pk", keyCols: pk, compared, omitOnInsert, keyRefs: refs };
+  }
+  // Without any key rows match on the hash of the compared columns both sides have
+  const keyCols = compared.filter(c => !tgtCols.length || tgtCols.some(t => t.column_name === c));
+  return { mode: "fullRow", keyCols, compared, omitOnInsert, keyRefs };
+}
+
+// Lookups replacing FK values of a reference row in the changelog
+const lookups = (plan: RowPlan, row: Row): Computed =>
+  new Map(
+    [...plan.keyRefs.values()]
+      .filter(k => row[`__ref_${k.column}`])
+      .map(k => [k.column, keyRefLookup(k, row[`__ref_${k.column}`]!)])
+  );
+
+const keyOf = (plan: RowPlan, row: Row) =>
+  plan.mode === "fullRow" ? row.__rowhash! : plan.keyCols.map(c => String(translated(plan, row, c))).join("|");
+
+/* ───────────── HASH FAST PATH ───────────── */
+/**
+ * Compares table hashes on both sides; when they differ, compares the hashes
+ * of each key range and returns only the ranges that need a row comparison.
+ */
+async function compareHashes(
+  table: string,
+  plan: RowPlan,
+  terms: SortTerm[],
+  ref: Source,
+  tgt: Source
+): Promise<{ hash: TableHash; ranges: KeyRange[] }> {
+  const q: RowQuery = { table, plan, terms };
+  const same = (a: HashSummary, b: HashSummary) => a.rows === b.rows && a.hash === b.hash;
+  const [reference, target] = await Promise.all([ref.rangeHash(q, FULL_RANGE), tgt.rangeHash(q, FULL_RANGE)]);
+  const hash: TableHash = { reference, target, buckets: 1, mismatchedBuckets: 0 };
+  if (same(reference, target)) return { hash, ranges: [] };
+
+  const buckets = await ref.bucketRanges(q);
+  const ranges: KeyRange[] = [];
+  if (buckets.length > 1) {
+    for (const range of buckets) {
+      const [r, t] = await Promise.all([ref.rangeHash(q, range), tgt.rangeHash(q, range)]);
+      if (!same(r, t)) ranges.push(range);
+    }
+  } else {
+    ranges.push(FULL_RANGE);
+  }
+  Object.assign(hash, { buckets: buckets.length, mismatchedBuckets: ranges.length });
+  return { hash, ranges };
+}
 
-  return { inserts, updates, deletes };
+async function* noRows(): AsyncGenerator<Row> {}
+
+// FK columns of a table written null first and set by a follow-up changeSet
+// (`sets`); rows about to be deleted have them cleared before any delete runs
+// (`releases`)
+type Deferred = { columns: string[]; sets: ChangeLogWriter; releases: ChangeLogWriter };
+
+/**
+ * Single merge-join over both sides streamed in key order. ChangeSets go to
+ * the writers as they are found, so memory does not grow with table size;
+ * a self-referencing table's changeSets wait on disk until its rows can be
+ * put parents first.
+ */
+async function generateRowDiff(
+  table: string,
+  pk: string[],
+  ref: Source,
+  tgt: Source,
+  out: { deletes: ChangeLogWriter; upserts: ChangeLogWriter; conflicts?: Conflict[]; promoted?: Set<string>; deferred?: Deferred },
+  keyRefs: Map<string, KeyRef> = new Map(),
+  ancestor: Source | null = null,
+  selfFKs: FK[] = []
+): Promise<{
+  inserts: number;
+  updates: number;
+  deletes: number;
+  updated: RowUpdate[];
+  kept: number;
+  conflicts: number;
+  hash?: TableHash;
+}> {
+  const typesOf = (cols: Column[]) => new Map(cols.map(c => [c.column_name, c.data_type]));
+  const [refCols, tgtCols, ancCols] = await Promise.all([ref.columns(table), tgt.columns(table), ancestor?.columns(table) ?? []]);
+  const [refTypes, tgtTypes, ancTypes] = [typesOf(refCols), typesOf(tgtCols), typesOf(ancCols)];
+  const plan = rowPlan(table, pk, refCols, tgtCols, keyRefs);
+  const terms = sortTerms(plan, refTypes);
+  const compare = (a: Row, b: Row) => compareRows(terms, a, b);
+
+  // Hash pre-check: identical tables are skipped, otherwise only the key
+  // ranges whose hashes differ are read. It needs every compared column on
+  // both sides.
+  let ranges = [FULL_RANGE];
+  let hash: TableHash | undefined;
+  if (features.hashCheck && tgtCols.length && plan.compared.every(c => tgtTypes.has(c)))
+    ({ hash, ranges } = await compareHashes(table, plan, terms, ref, tgt));
+
+  const q: RowQuery = { table, plan, terms };
+  const refRows = ref.rows(q, ranges);
+  const tgtRows = tgtCols.length ? tgt.rows(q, ranges) : noRows();
+
+  // A match key has to identify a single row on each side
+  const previous = new Map<AsyncGenerator<Row>, Row>();
+  const next = async (it: AsyncGenerator<Row>) => {
+    const n = await it.next();
+    if (n.done) return null;
+    const last = previous.get(it);
+    if (plan.mode === "matchKey" && last && !compare(last, n.value)) {
+      const side = it === refRows ? `reference (${ref.label})` : `target (${tgt.label})`;
+      throw new Error(`${CONFIG_FILE}: matchKey of '${table}' is not unique in the ${side}: ${keyOf(plan, n.value)}`);
+    }
+    previous.set(it, n.value);
+    return n.value;
+  };
+
+  // Identical rows of a table matched on the full row share a key; repeats are numbered
+  let lastId = "";
+  let repeat = 0;
+  const idFor = (op: string, row: Row): ChangeSetId => {
+    const key = keyOf(plan, row);
+    repeat = `${op}/${key}` === lastId ? repeat + 1 : 1;
+    lastId = `${op}/${key}`;
+    return { table, op, key, repeat };
+  };
+  const where = (row: Row, types: Map<string, string>, computed?: Computed) =>
+    rowConditions(row, plan.keyCols, types, computed);
+  const remove = plan.mode === "fullRow" ? deleteOneChange : deleteChange;
+  // Rows giving a GENERATED ALWAYS identity column a value go in as SQL
+  const always = new Set([...refCols, ...tgtCols].filter(c => c.identity === "a").map(c => c.column_name));
+  const insert = (entries: [string, PgText][], types: Map<string, string>, computed?: Computed) =>
+    (entries.some(([c]) => always.has(c)) ? insertSqlChange : insertChange)(table, entries, types, computed);
+
+  // Deferred columns holding a value; key columns cannot be deferred
+  const deferrable = (out.deferred?.columns ?? []).filter(c => !plan.keyCols.includes(c));
+  const deferredIn = (row: Row) => deferrable.filter(c => row[c] != null);
+  const withNull = (row: Row, cols: string[]): Row =>
+    ({ ...row, ...Object.fromEntries(cols.flatMap(c => [[c, null], [`__ref_${c}`, null]])) });
+  const values = (row: Row, cols: string[]) => cols.map((c): [string, PgText] => [c, row[c] ?? null]);
+
+  // Rows of a self-referencing table are held and written parents first,
+  // deletes children first
+  const spill = heldChangeSets(table, selfFKs);
+  const held = { deletes: [] as Held[], upserts: [] as Held[] };
+  const write = (kind: "deletes" | "upserts", row: Row, changeSet: string) =>
+    selfFKs.length ? held[kind].push(spill.hold(row, changeSet)) : out[kind].write(changeSet);
+
+  const counts = { inserts: 0, updates: 0, deletes: 0, kept: 0, conflicts: 0 };
+  const updated: RowUpdate[] = [];
+
+  // Three-way merge: the ancestor's row with the same key tells which side
+  // changed. Tables the ancestor does not have are merged two-way.
+  const merging = !!out.conflicts && ancCols.length > 0;
+  const ancRows = merging ? ancestor!.rows(q, ranges) : noRows();
+  let a: Row | null = (await ancRows.next()).value ?? null;
+  const baseOf = async (row: Row) => {
+    while (a && compare(a, row) < 0) a = (await ancRows.next()).value ?? null;
+    return a && !compare(a, row) ? a : null;
+  };
+  const sameIn = (x: Row, y: Row, c: string) =>
+    plan.keyRefs.has(c)
+      ? translated(plan, x, c) === translated(plan, y, c)
+      : sameValue(refTypes.get(c) ?? "text", x[c], y[c] ?? null);
+  // Columns the ancestor cannot tell about are left to the reference
+  const changedSince = (base: Row, row: Row) =>
+    plan.compared.filter(c => ancTypes.has(c) && tgtTypes.has(c) && !sameIn(base, row, c));
+  const conflict = (change: Conflict["change"], row: Row, columns: string[], rows: (Row | null)[], changeSet: string) => {
+    const valueIn = (r: Row | null, c: string) => (r ? translated(plan, r, c) ?? null : null);
+    const [base, rRow, tRow] = rows;
+    out.conflicts!.push({
+      table,
+      key: keyOf(plan, row),
+      change,
+      columns: columns.map(c => ({ column: c, ancestor: valueIn(base!, c), reference: valueIn(rRow!, c), target: valueIn(tRow!, c) })),
+      resolution: null,
+      changeSet,
+    });
+    counts.conflicts++;
+  };
+
+  // Delete: rolled back by re-inserting the full target row. With `defer`
+  // its deferred columns are released first and restored after the rollback.
+  const deleteSet = (tRow: Row, defer = false) => {
+    const id = idFor("delete", tRow);
+    const cols = defer ? deferredIn(tRow) : [];
+    if (cols.length)
+      out.deferred!.releases.write(changeSet(
+        { ...id, op: "release-fks" },
+        updateChange(table, values(withNull(tRow, cols), cols), tgtTypes, where(tRow, tgtTypes)),
+        updateChange(table, values(tRow, cols), tgtTypes, where(tRow, tgtTypes))
+      ));
+    return changeSet(
+      id,
+      remove(table, where(tRow, tgtTypes)),
+      insert(columnsOf(withNull(tRow, cols)), tgtTypes)
+    );
+  };
+  // Insert: surrogate keys are left to the target. With `defer` the deferred
+  // columns are inserted null and set once every row is in.
+  const insertSet = (rRow: Row, defer = false) => {
+    const id = idFor("insert", rRow);
+    const computed = lookups(plan, rRow);
+    const cols = defer ? deferredIn(rRow) : [];
+    const inserted = withNull(rRow, cols);
+    if (cols.length)
+      out.deferred!.sets.write(changeSet(
+        { ...id, op: "set-fks" },
+        updateChange(table, values(rRow, cols), refTypes, where(rRow, refTypes, computed), computed),
+        updateChange(table, values(inserted, cols), refTypes, where(rRow, refTypes, computed))
+      ));
+    return changeSet(
+      id,
+      insert(columnsOf(inserted).filter(([c]) => !plan.omitOnInsert.has(c)), refTypes, lookups(plan, inserted)),
+      remove(table, where(rRow, refTypes, computed))
+    );
+  };
+  // Update: rolled back to the target's previous values of the changed
+  // columns. The target's key values identify the row on both ways. With
+  // `defer` deferred columns getting a value are set by a follow-up; null
+  // when nothing else changed.
+  const updateSet = (rRow: Row, tRow: Row, cols: string[], defer = false) => {
+    const id = idFor("update", rRow);
+    const later = defer ? deferredIn(rRow).filter(c => cols.includes(c)) : [];
+    const now = cols.filter(c => !later.includes(c));
+    const update = (changed: string[], id: ChangeSetId) => changeSet(
+      id,
+      updateChange(table, values(rRow, changed), refTypes, where(tRow, tgtTypes), lookups(plan, rRow)),
+      updateChange(table, values(tRow, changed), tgtTypes, where(tRow, tgtTypes))
+    );
+    if (later.length) out.deferred!.sets.write(update(later, { ...id, op: "set-fks" }));
+    return now.length ? update(now, id) : null;
+  };
+
+  let r = await next(refRows);
+  let t = await next(tgtRows);
+
+  while (r || t) {
+    const order = !r ? 1 : !t ? -1 : compare(r, t);
+
+    // Only on the target: inserted there since the ancestor, or deleted by the reference
+    if (order > 0) {
+      const tRow = t!;
+      const base = merging ? await baseOf(tRow) : null;
+      const edited = base ? changedSince(base, tRow) : [];
+      if (merging && !base) counts.kept++;
+      else if (edited.length) conflict("delete", tRow, edited, [base, null, tRow], deleteSet(tRow));
+      else {
+        write("deletes", tRow, deleteSet(tRow, true));
+        counts.deletes++;
+      }
+      t = await next(tgtRows);
+      continue;
+    }
+
+    // Only in the reference: inserted there, or deleted by the target since the ancestor
+    if (order < 0) {
+      const rRow = r!;
+      const base = merging ? await baseOf(rRow) : null;
+      const edited = base ? changedSince(base, rRow) : [];
+      if (base && !edited.length) counts.kept++;
+      else if (base) conflict("insert", rRow, edited, [base, rRow, null], insertSet(rRow));
+      else {
+        write("upserts", rRow, insertSet(rRow, true));
+        out.promoted?.add(keyOf(plan, rRow));
+        counts.inserts++;
+      }
+      r = await next(refRows);
+      continue;
+    }
+
+    // On both: per column, changes the target alone made are kept and
+    // changes both sides made conflict
+    const [rRow, tRow] = [r!, t!];
+    const changedCols = plan.compared.filter(c => !sameIn(tRow, rRow, c));
+    if (changedCols.length) {
+      const base = merging ? await baseOf(rRow) : null;
+      const sideOf = (c: string) =>
+        !merging || !tgtTypes.has(c) || (base && !ancTypes.has(c)) || (base && sameIn(base, tRow, c))
+          ? "reference"
+          : base && sameIn(base, rRow, c)
+          ? "target"
+          : "conflict";
+      const fromRef = changedCols.filter(c => sideOf(c) === "reference");
+      const conflicting = changedCols.filter(c => sideOf(c) === "conflict");
+      if (fromRef.length < changedCols.length && !conflicting.length) counts.kept++;
+      if (conflicting.length) conflict("update", rRow, conflicting, [base, rRow, tRow], updateSet(rRow, tRow, conflicting)!);
+      if (fromRef.length) {
+        if (updated.length < REPORT_SAMPLE) {
+          updated.push({
+            key: keyOf(plan, rRow),
+            columns: fromRef.map(c => ({
+              column: c,
+              before: translated(plan, tRow, c) ?? null,
+              after: translated(plan, rRow, c) ?? null,
+            })),
+          });
+        }
+        const update = updateSet(rRow, tRow, fromRef, true);
+        if (update) write("upserts", rRow, update);
+        out.promoted?.add(keyOf(plan, rRow));
+        counts.updates++;
+      }
+    }
+    r = await next(refRows);
+    t = await next(tgtRows);
+  }
+
+  rowOrder(held.deletes, true).forEach(h => out.deletes.write(spill.read(h)));
+  rowOrder(held.upserts, false).forEach(h => out.upserts.write(spill.read(h)));
+  spill.close();
+  return { ...counts, updated, hash };
 }
 
 /* ───────────── SNAPSHOT ───────────── */
-async function generateSnapshot(outDir: string) {
+async function generateSnapshot(outDir: string, target: Environment | null) {
+  const db = target ? connectionOf(target) : DB_TGT;
   const lb = new Liquibase({
     ...POSTGRESQL_DEFAULT_CONFIG,
-    url: `jdbc:postgresql://${process.env.DB_HOST}:${process.env.PORT}/${process.env.DB_TARGET}`,
-    username: process.env.DB_USERNAME!,
-    password: process.env.DB_PASSWORD!,
+    url: target ? jdbcUrlOf(target) : `jdbc:postgresql://${DB_TGT.host}:${DB_TGT.port}/${DB_TGT.database}`,
+    username: db.user!,
+    password: (db.password as string | undefined) ?? "",
   });
   await lb.generateChangeLog({
     changelogFile: `${outDir}/snapshot.yaml`,
     diffTypes: "table,column,primaryKey,foreignKey,index,uniqueConstraint,data",
+    schemas: SCHEMAS.join(","),
+    includeSchema: true, // lets `validate` restore it into the right schemas
   });
 }
 
+/* ───────────── BUSINESS RULES ───────────── */
+// Keys of the rows a table's diff inserts or updates, and the business key
+// references it was keyed with
+type Promoted = { keys: Set<string>; keyRefs: Map<string, KeyRef> };
+
+// Rules run over whole tables a keyset page at a time, so overlaps and cycles
+// with rows the diff leaves alone are found too; only findings involving a
+// promoted row count
+async function checkBusinessRules(ref: Source, promoted: Map<string, Promoted>, pkMap: Map<string, string[]>): Promise<Finding[]> {
+  const rules = await loadRules(config);
+  const rowsOf = async (table: string, column: string, values: PgText[]) =>
+    (await ref.columns(table)).length ? ref.rowsWhere(table, column, [...new Set(values.filter(v => v !== null))]) : [];
+
+  const findings: Finding[] = [];
+  for (const [table, { keys, keyRefs }] of promoted) {
+    if (!keys.size || !rulesOf(rules, table).length) continue;
+    const cols = await ref.columns(table);
+    const types = new Map(cols.map(c => [c.column_name, c.data_type]));
+    const plan = rowPlan(table, pkMap.get(table) ?? [], cols, cols, keyRefs);
+    const terms = sortTerms(plan, types);
+    const pages = (groupBy: string[] = []) => pagesOf(ref.rows({ table, plan, terms: [...groupTerms(groupBy), ...terms] }));
+    const input = { table, types, keyOf: (row: Row) => keyOf(plan, row), pages, rowsOf };
+    findings.push(...(await checkRules(rules, input, k => keys.has(k))));
+  }
+  return findings;
+}
+
+/* ───────────── SOURCES ───────────── */
+const openSource = (spec: string | undefined, db: () => ClientConfig): Promise<Source> =>
+  spec ? Promise.resolve(offlineSource(spec, SCHEMAS)) : pgSource(db(), SCHEMAS);
+
+// The target as its last applied sync left it: the newest diff directory
+// whose changeSets are all in the target's databasechangelog, with its
+// snapshot and changelog replayed. A pending or rolled back directory is no
+// common ancestor; without an applied one, or for an offline target, rows
+// are merged two-way. Another directory, or any other offline source, can be
+// given instead. A directory is replayed on a scratch database and streamed
+// like the target; only for an offline target is it replayed in memory.
+async function openAncestor(
+  given: string | undefined,
+  target: (() => ClientConfig) | null,
+  schema: string | undefined
+): Promise<{ spec: string; source: Source } | null> {
+  if (!features.merge || !features.data) return null;
+  const spec = given ?? (target ? await lastApplied(target(), schema) : undefined);
+  if (!spec) return null;
+  if (fs.existsSync(path.join(spec, "master-changelog.yaml"))) {
+    if (!fs.existsSync(path.join(spec, "snapshot.yaml"))) {
+      console.log(`⚠️ ${spec} has no snapshot.yaml; rows are merged two-way`);
+      return null;
+    }
+    return { spec, source: target ? await scratchSource(spec, schema ?? SCHEMAS[0]!) : appliedSource(spec, SCHEMAS) };
+  }
+  return { spec, source: offlineSource(spec, SCHEMAS) };
+}
+
+// A diff directory applied on a scratch database; closing it drops the database
+async function scratchSource(dir: string, schema: string): Promise<Source> {
+  const admin = adminClient();
+  await admin.connect();
+  let database: string | null = null;
+  try {
+    database = await restoreScratch(admin, path.join(dir, "snapshot.yaml"), schema);
+    await scratchLiquibase(path.join(dir, "master-changelog.yaml"), database, schema).update({});
+    const source = await pgSource(scratchConnection(database), SCHEMAS);
+    const scratch = database;
+    return {
+      ...source,
+      close: async () => {
+        await source.close();
+        await dropScratch(admin, scratch);
+        await admin.end();
+      },
+    };
+  } catch (err) {
+    if (database) await dropScratch(admin, database);
+    await admin.end();
+    throw err;
+  }
+}
+
+async function lastApplied(db: ClientConfig, schema: string | undefined): Promise<string | undefined> {
+  const root = `./${OUTPUT}`;
+  const dirs = diffDirectories(root);
+  if (!dirs.length) return undefined;
+  const client = new Client(db);
+  await client.connect();
+  try {
+    const unapplied = new Set(unappliedDirectories(await appliedChangeSets(client, schema), root));
+    const dir = dirs.filter(d => !unapplied.has(d)).at(-1);
+    if (!dir) console.log("⚠️ The target applied no diff directory yet; rows are merged two-way");
+    return dir && path.join(OUTPUT, dir);
+  } finally {
+    await client.end().catch(() => {});
+  }
+}
+
+const selectedTables = async (s: Source) => (await s.tables()).filter(selected);
+const selectedFKs = async (s: Source) => (await s.fks()).filter(f => selected(f.child));
+const onSelected = async <T extends { table: string }>(objects: Promise<T[]>) =>
+  (await objects).filter(o => selected(o.table));
+
 /* ───────────── MAIN ───────────── */
-async function run() {
-  const ref = new Client(DB_REF);
-  const tgt = new Client(DB_TGT);
-  await ref.connect();
-  await tgt.connect();
-
-  const [refTables, tgtTables, refFKs, tgtFKs, pkMap] = await Promise.all([
-    tables(ref),
-    tables(tgt),
-    fks(ref),
-    fks(tgt),
-    pks(ref)
+// Offline sources replacing a side of the diff (see offline.ts), the
+// common ancestor of the row merge instead of the last applied directory,
+// whether business rule errors still let the master changelog be written,
+// and the environments of a promotion: `from` as the reference, `to` as the
+// target and owner of the diff directory
+export type DiffOptions = {
+  reference?: string;
+  target?: string;
+  ancestor?: string;
+  allowRuleErrors?: boolean;
+  from?: string;
+  to?: string;
+};
+
+export type DiffResult = {
+  diffPath: string;
+  diffDir: string; // relative to the repository root
+  report: DiffReport;
+  conflicts: number;
+  blocked: boolean; // business rule errors; the directory has no master changelog
+};
+
+let running = false;
+export const diffRunning = () => running;
+
+/**
+ * Generates a diff directory below the configured output and returns its
+ * report, or null when both sides are already in sync. Errors are thrown
+ * after the partial directory is removed; a directory blocked by business
+ * rule errors is kept, without its master changelog, for the report.
+ */
+export async function generateDiff(options: DiffOptions = {}): Promise<DiffResult | null> {
+  if (running) throw new Error("A diff is already being generated");
+  running = true;
+  TS = new Date().toISOString().replace(/[:.]/g, "-");
+  OUT = "";
+  const sources: Source[] = [];
+  try {
+    const promotion = await promotionOf(options);
+    OUTPUT = promotion ? promotion.to.output : config.output;
+    OUT = path.resolve(OUTPUT, TS);
+    const ref = await openSource(options.reference, () => (promotion ? connectionOf(promotion.from) : DB_REF));
+    sources.push(ref);
+    const tgt = await openSource(options.target, () => (promotion ? connectionOf(promotion.to) : DB_TGT));
+    sources.push(tgt);
+    const ancestor = await openAncestor(
+      options.ancestor,
+      options.target ? null : () => (promotion ? connectionOf(promotion.to) : DB_TGT),
+      promotion?.to.changeLogSchema
+    );
+    if (ancestor) sources.push(ancestor.source);
+    return await run(ref, tgt, ancestor, options, promotion);
+  } catch (err) {
+    if (OUT) fs.rmSync(OUT, { recursive: true, force: true });
+    throw err;
+  } finally {
+    await Promise.all(sources.map(s => s.close().catch(() => {})));
+    running = false;
+  }
+}
+
+type Promotion = { from: Environment; to: Environment };
+
+// A promotion runs between neighbours of the pipeline, and only once `from`
+// applied every directory promoted to it: what goes downstream has been
+// through `from` first
+async function promotionOf({ from, to }: DiffOptions): Promise<Promotion | null> {
+  if (!from && !to) return null;
+  if (!from || !to) throw new Error("A promotion needs both environments, --from and --to");
+  const promotion = { from: environment(from), to: environment(to) };
+  if (from === to) throw new Error(`Cannot promote '${from}' to itself`);
+  if (promotion.to.upstream !== null && promotion.to.upstream !== from)
+    throw new Error(`'${to}' is promoted from '${promotion.to.upstream}', not '${from}'`);
+  const unapplied = await unappliedIn(promotion.from).catch(err => {
+    throw new Error(`Could not read the history of '${from}': ${err instanceof Error ? err.message : err}`);
+  });
+  if (unapplied.length)
+    throw new Error(`'${from}' has not applied ${unapplied.join(", ")} yet; run sync --target ${from} first`);
+  return promotion;
+}
+
+async function run(
+  ref: Source,
+  tgt: Source,
+  ancestor: { spec: string; source: Source } | null,
+  options: DiffOptions,
+  promotion: Promotion | null
+): Promise<DiffResult | null> {
+
+  const [refSchemas, tgtSchemas] = await Promise.all([ref.schemas(), tgt.schemas()]);
+  const [refTables, tgtTables, refFKs, tgtFKs, pkMap, tgtPkMap] = await Promise.all([
+    selectedTables(ref),
+    selectedTables(tgt),
+    selectedFKs(ref),
+    selectedFKs(tgt),
+    ref.pks(),
+    tgt.pks()
+  ]);
+  const none = async () => [];
+  const [refIdx, tgtIdx, refUqs, tgtUqs, refChecks, tgtChecks] = await Promise.all([
+    features.indexes ? onSelected(ref.indexes()) : none(),
+    features.indexes ? onSelected(tgt.indexes()) : none(),
+    features.constraints ? onSelected(ref.constraints("u")) : none(),
+    features.constraints ? onSelected(tgt.constraints("u")) : none(),
+    features.constraints ? onSelected(ref.constraints("c")) : none(),
+    features.constraints ? onSelected(tgt.constraints("c")) : none(),
   ]);
 
+  // Row diffs stream into the output directory; it is removed again if
+  // nothing changed
+  fs.mkdirSync(OUT, { recursive: true });
   let hasChanges = false;
-  const files: { name: string; lines: string[] }[] = [];
+  const files: { name: string; lines?: string[] }[] = [];
+  const report = new Map<string, TableReport>();
+  const tableReport = (t: string) => {
+    if (!report.has(t)) {
+      const status = !tgtTables.includes(t) ? "new" : !refTables.includes(t) ? "dropped" : "existing";
+      report.set(t, emptyTableReport(t, status));
+    }
+    return report.get(t)!;
+  };
+
+  const existingTables = refTables.filter(t => tgtTables.includes(t));
+  const promoted = new Map<string, Promoted>();
+
+  // NEW SCHEMAS
+  // Dropped schemas are left in place; only their tables go
+  const newSchemas = features.tables ? refSchemas.filter(s => !tgtSchemas.includes(s)) : [];
+  if (newSchemas.length) {
+    hasChanges = true;
+    files.push({
+      name: "new-schemas.yaml",
+      lines: newSchemas.map(s => changeSet({ table: s, op: "create-schema" }, createSchemaChange(s), dropSchemaChange(s)))
+    });
+  }
+
+  // DROPPED & CHANGED FKS
+  // Before any table change, so neither deletes nor dropped parent tables trip over them.
+  // FKs of dropped child tables go away with the table.
+  const refFKKeys = new Set(refFKs.map(fkKey));
+  const droppedFKs = features.foreignKeys
+    ? tgtFKs.filter(f => !refFKKeys.has(fkKey(f)) && refTables.includes(f.child))
+    : [];
+  droppedFKs.forEach(f => tableReport(f.child).schemaChanges++);
+  if (droppedFKs.length) {
+    hasChanges = true;
+    files.push({
+      name: "drop-fks.yaml",
+      lines: droppedFKs.map(f => changeSet({ table: f.child, op: "drop-fk", key: f.name }, dropFKChange(f), addFKChange(f)))
+    });
+  }
 
   // DROPPED TABLES
-  let dropped = tgtTables.filter(t => !refTables.includes(t));
+  let dropped = features.tables ? tgtTables.filter(t => !refTables.includes(t)) : [];
   dropped = topoSort(dropped, tgtFKs, true); // children first
   if (dropped.length) {
     hasChanges = true;
-    files.push({ name: "drop-tables.yaml", lines: dropped.map(t => `
-- changeSet:
-    id: drop-${t}
-    author: auto
-    changes:
-      - dropTable:
-          tableName: ${t}
-`.trim()) });
+    // The rollback restores the table structure; its rows are not kept.
+    // Tables of an FK cycle take the FKs pointing at them along.
+    const cyclic = new Set(components(dropped, t => tgtFKs.filter(f => f.child === t && f.parent !== t).map(f => f.parent))
+      .filter(c => c.length > 1)
+      .flat());
+    const lines: string[] = [];
+    for (const t of dropped) {
+      tableReport(t);
+      const cols = await tgt.columns(t);
+      lines.push(changeSet({ table: t, op: "drop-table" }, dropTableChange(t, cyclic.has(t)), createTableChanges(t, cols, tgtPkMap.get(t) ?? [])));
+    }
+    files.push({ name: "drop-tables.yaml", lines });
   }
 
   // NEW TABLES
-  let created = refTables.filter(t => !tgtTables.includes(t));
+  let created = features.tables ? refTables.filter(t => !tgtTables.includes(t)) : [];
   created = topoSort(created, refFKs, false); // parents first
   for (const t of created) {
-    const cols = await columns(ref, t);
+    const cols = await ref.columns(t);
     const pk = pkMap.get(t) ?? [];
-    const lines: string[] = [];
-    lines.push(`
-- changeSet:
-    id: create-${t}
-    author: auto
-    changes:
-      - createTable:
-          tableName: ${t}
-          columns:
-${cols.map(c => `            - column:
-                name: ${c.column_name}
-                type: ${c.data_type}
-                constraints:
-                  nullable: ${c.is_nullable === "YES"}`).join("\n")}
-${pk.length ? `
-      - addPrimaryKey:
-          tableName: ${t}
-          columnNames: ${pk.join(", ")}` : ""}
-`.trim());
+    const lines = [changeSet({ table: t, op: "create-table" }, createTableChanges(t, cols, pk), dropTableChange(t))];
     files.push({ name: `new-table-${t}.yaml`, lines });
     hasChanges = true;
 
-    // Row inserts for new table
-    const { inserts } = await generateRowDiff(t, pk, ref, tgt);
-    if (inserts.length) files.push({ name: `insert-${t}.yaml`, lines: inserts });
+    // Row inserts for new table; the target has no rows to delete
+    if (!features.data) continue;
+    const inserts = changeLogWriter(`insert-${t}.yaml`);
+    const keyRefs = await businessKeyRefs(ref, t, refFKs, pkMap, existingTables);
+    const keys = new Set<string>();
+    promoted.set(t, { keys, keyRefs });
+    const diff = await generateRowDiff(t, pk, ref, tgt, { deletes: inserts, upserts: inserts, promoted: keys }, keyRefs);
+    tableReport(t).inserts = diff.inserts;
+    if (diff.inserts) syncSequences(t, cols).forEach(inserts.write);
+    if (inserts.close()) files.push({ name: inserts.name });
   }
 
-  // NEW FKS
-  const tgtFKMap = new Set(
-    tgtFKs.map(f => `${f.child}|${f.parent}|${f.childCols.join(",")}`)
-  );
-  const newFKs = refFKs.filter(
-    f => !tgtFKMap.has(`${f.child}|${f.parent}|${f.childCols.join(",")}`)
-  );
-  if (newFKs.length) {
-    hasChanges = true;
-    files.push({
+  // NEW & CHANGED FKS
+  // Added after the row changes and the unique constraints they may point at,
+  // so they are validated against the final data; changed ones were dropped above
+  const tgtFKKeys = new Set(tgtFKs.map(fkKey));
+  const newFKs = features.foreignKeys ? refFKs.filter(f => !tgtFKKeys.has(fkKey(f))) : [];
+  newFKs.forEach(f => tableReport(f.child).schemaChanges++);
+  const fkFiles = newFKs.length
+    ? [{
       name: "new-fks.yaml",
-      lines: newFKs.map(f => `
-- changeSet:
-    id: fk-${f.name}
-    author: auto
-    changes:
-      - addForeignKeyConstraint:
-          constraintName: ${f.name}
-          baseTableName: ${f.child}
-          baseColumnNames: ${f.childCols.join(",")}
-          referencedTableName: ${f.parent}
-          referencedColumnNames: ${f.parentCols.join(",")}
-`.trim())
-    });
-  }
+      lines: newFKs.map(f => changeSet({ table: f.child, op: "add-fk", key: f.name }, addFKChange(f), dropFKChange(f)))
+    }]
+    : [];
+  if (fkFiles.length) hasChanges = true;
 
-  // EXISTING TABLE ROW DIFFS
-  const existingTables = refTables.filter(t => tgtTables.includes(t));
+  // INDEXES & CONSTRAINTS
+  // Dropped before the data diffs so they cannot reject incoming rows, added
+  // after them so they are validated against the final data. Objects on
+  // dropped tables go away with the table.
+  const onExisting = (o: { table: string }) => existingTables.includes(o.table);
+  const onRef = (o: { table: string }) => refTables.includes(o.table);
+  const idxDiff = diffByName(refIdx, tgtIdx);
+  const uqDiff = diffByName(refUqs, tgtUqs);
+  const checkDiff = diffByName(refChecks, tgtChecks);
 
-  for (const t of topoSort(existingTables, refFKs, true)) {
-    const pk = pkMap.get(t) ?? [];
-    const { deletes } = await generateRowDiff(t, pk, ref, tgt);
-    if (deletes.length) {
+  const dropFiles = [
+    { name: "drop-indexes.yaml", lines: idxDiff.removed.filter(onExisting).map(dropIndex) },
+    { name: "drop-unique-constraints.yaml", lines: uqDiff.removed.filter(onExisting).map(dropUniqueConstraint) },
+    { name: "drop-check-constraints.yaml", lines: checkDiff.removed.filter(onExisting).map(dropCheckConstraint) },
+  ].filter(f => f.lines.length);
+  const constraintFiles = [
+    { name: "new-unique-constraints.yaml", lines: uqDiff.added.filter(onRef).map(addUniqueConstraint) },
+    { name: "new-indexes.yaml", lines: idxDiff.added.filter(onRef).map(createIndex) },
+    { name: "new-check-constraints.yaml", lines: checkDiff.added.filter(onRef).map(addCheckConstraint) },
+  ].filter(f => f.lines.length);
+  if (dropFiles.length || constraintFiles.length) hasChanges = true;
+  files.push(...dropFiles);
+  [...idxDiff.removed.filter(onExisting), ...uqDiff.removed.filter(onExisting), ...checkDiff.removed.filter(onExisting)]
+    .forEach(o => tableReport(o.table).schemaChanges++);
+  [...idxDiff.added.filter(onRef), ...uqDiff.added.filter(onRef), ...checkDiff.added.filter(onRef)]
+    .forEach(o => tableReport(o.table).schemaChanges++);
+
+  // EXISTING TABLE COLUMN DIFFS
+  const notNullFiles: { name: string; lines: string[] }[] = [];
+
+  for (const t of features.columns ? existingTables : []) {
+    const [refCols, tgtCols] = await Promise.all([ref.columns(t), tgt.columns(t)]);
+    const { alters, notNulls } = generateColumnDiff(t, refCols, tgtCols);
+    tableReport(t).schemaChanges += alters.length + notNulls.length;
+    if (alters.length) {
       hasChanges = true;
-      files.push({ name: `delete-${t}.yaml`, lines: deletes });
+      files.push({ name: `alter-${t}.yaml`, lines: alters });
     }
-  }
-
-  for (const t of topoSort(existingTables, refFKs, false)) {
-    const pk = pkMap.get(t) ?? [];
-    const { inserts, updates } = await generateRowDiff(t, pk, ref, tgt);
-    if (inserts.length || updates.length) {
+    if (notNulls.length) {
       hasChanges = true;
-      files.push({ name: `diff-${t}.yaml`, lines: [...inserts, ...updates] });
+      notNullFiles.push({ name: `alter-${t}-not-null.yaml`, lines: notNulls });
     }
   }
 
+  // FK CYCLES
+  // Broken at nullable FKs: their columns are set after all inserts and
+  // updates, and cleared before any delete
+  const nullable = new Map<string, Set<string>>();
+  for (const t of new Set(refFKs.map(f => f.child).filter(t => existingTables.includes(t))))
+    nullable.set(t, new Set((await ref.columns(t)).filter(c => c.is_nullable === "YES").map(c => c.column_name)));
+  const { broken, cycles } = breakCycles(existingTables, refFKs, (t, c) => nullable.get(t)?.has(c) ?? false);
+  cycles
+    .filter(c => !c.resolved)
+    .forEach(c => console.log(`⚠️ FK cycle between ${c.tables.join(", ")} has no nullable FK to defer; its row changes may fail`));
+
+  // EXISTING TABLE ROW DIFFS
+  // One pass per table; the files are ordered children first for deletes and
+  // parents first for inserts and updates
+  const deleteFiles = new Set<string>();
+  const diffFiles = new Set<string>();
+  const releaseFiles = new Set<string>();
+  const deferredFiles = new Set<string>();
+  const conflicts = new Map<string, Conflict[]>();
+  for (const t of features.data ? existingTables : []) {
+    const deletes = changeLogWriter(`delete-${t}.yaml`);
+    const upserts = changeLogWriter(`diff-${t}.yaml`);
+    const deferredFKs = refFKs.filter(f => f.child === t && broken.has(f));
+    const deferred = deferredFKs.length
+      ? {
+          columns: [...new Set(deferredFKs.flatMap(f => f.childCols))],
+          sets: changeLogWriter(`deferred-${t}.yaml`),
+          releases: changeLogWriter(`release-${t}.yaml`),
+        }
+      : undefined;
+    const selfFKs = refFKs.filter(f => f.child === t && f.parent === t);
+    const keyRefs = await businessKeyRefs(ref, t, refFKs, pkMap, existingTables);
+    const keys = new Set<string>();
+    promoted.set(t, { keys, keyRefs });
+    const out = { deletes, upserts, conflicts: ancestor ? [] : undefined, promoted: keys, deferred };
+    const diff = await generateRowDiff(t, pkMap.get(t) ?? [], ref, tgt, out, keyRefs, ancestor?.source, selfFKs);
+    Object.assign(tableReport(t), diff);
+    if (diff.inserts) syncSequences(t, await tgt.columns(t)).forEach(upserts.write);
+    if (deletes.close()) deleteFiles.add(t);
+    if (upserts.close()) diffFiles.add(t);
+    if (deferred?.releases.close()) releaseFiles.add(t);
+    if (deferred?.sets.close()) deferredFiles.add(t);
+    if (out.conflicts?.length) conflicts.set(t, out.conflicts);
+  }
+  if (deleteFiles.size || diffFiles.size || conflicts.size) hasChanges = true;
+  const deleteOrder = topoSort(existingTables, refFKs, true, broken);
+  const upsertOrder = topoSort(existingTables, refFKs, false, broken);
+  deleteOrder.filter(t => releaseFiles.has(t)).forEach(t => files.push({ name: `release-${t}.yaml` }));
+  deleteOrder.filter(t => deleteFiles.has(t)).forEach(t => files.push({ name: `delete-${t}.yaml` }));
+  upsertOrder.filter(t => diffFiles.has(t)).forEach(t => files.push({ name: `diff-${t}.yaml` }));
+  upsertOrder.filter(t => deferredFiles.has(t)).forEach(t => files.push({ name: `deferred-${t}.yaml` }));
+  // Conflicts resolved to the reference run after the other row changes, in
+  // the same order: deletes children first, then inserts and updates
+  const conflictList = [
+    ...deleteOrder.flatMap(t => (conflicts.get(t) ?? []).filter(c => c.change === "delete")),
+    ...upsertOrder.flatMap(t => (conflicts.get(t) ?? []).filter(c => c.change !== "delete")),
+  ];
+  if (conflictList.length) files.push({ name: CONFLICTS_CHANGELOG });
+  files.push(...notNullFiles, ...constraintFiles, ...fkFiles);
+
+  // BUSINESS RULES
+  // Errors keep the master changelog from being written unless allowed
+  const findings = features.rules && hasChanges ? await checkBusinessRules(ref, promoted, pkMap) : [];
+  const errors = findings.filter(f => f.severity === "error").length;
+  const blocked = errors > 0 && !options.allowRuleErrors;
+
   // WRITE FILES
   if (hasChanges) {
-    fs.mkdirSync(OUT, { recursive: true });
-    for (const f of files) fs.writeFileSync(path.join(OUT, f.name), wrap(f.lines));
-    fs.writeFileSync(
-      path.join(OUT, "master-changelog.yaml"),
-      wrap(files.map(f => `  - include:\n      file: ./db/diff/${TS}/${f.name}`))
-    );
-    await generateSnapshot(OUT);
-    if (output) fs.appendFileSync(output, `diffPath=${TS}\n`);
+    for (const f of files) if (f.lines) fs.writeFileSync(path.join(OUT, f.name), wrap(f.lines));
+    if (!blocked)
+      fs.writeFileSync(
+        path.join(OUT, "master-changelog.yaml"),
+        wrap(files.map(f => `  - include:\n      file: ./${OUTPUT}/${TS}/${f.name}`))
+      );
+    const diffReport: DiffReport = {
+      diffPath: TS,
+      generatedAt: new Date().toISOString(),
+      ancestor: ancestor?.spec ?? null,
+      promotion: promotion && { from: promotion.from.name, to: promotion.to.name },
+      tables: [...report.values()].sort((a, b) => a.table.localeCompare(b.table)),
+      findings,
+      cycles,
+      blocked,
+    };
+    writeReport(OUT, diffReport);
+    if (conflictList.length) writeConflicts(OUT, { diffPath: TS, ancestor: ancestor!.spec, conflicts: conflictList });
+    findings.forEach(f => console.log(`${f.severity === "error" ? "❌" : "⚠️"} ${f.rule} on ${f.table} (${f.keys.join(", ")}): ${f.message}`));
+    if (blocked) {
+      console.log(`❌ ${errors} business rule errors; ${OUT} has no master-changelog.yaml. Fix the reference or rerun with --allow-rule-errors`);
+      return { diffPath: TS, diffDir: `${OUTPUT}/${TS}`, report: diffReport, conflicts: conflictList.length, blocked };
+    }
+    // An offline target has no database to snapshot
+    if (features.snapshot && !options.target) await generateSnapshot(OUT, promotion?.to ?? null);
     console.log("✅ Diff generated:", OUT);
-  } else {
-    console.log("✅ Databases already in sync");
+    if (conflictList.length)
+      console.log(`⚠️ ${conflictList.length} rows changed on both sides; resolve them in ${path.join(OUT, CONFLICTS_FILE)}`);
+    return { diffPath: TS, diffDir: `${OUTPUT}/${TS}`, report: diffReport, conflicts: conflictList.length, blocked };
   }
+  fs.rmSync(OUT, { recursive: true, force: true });
+  console.log("✅ Databases already in sync");
+  return null;
+}
 
-  await ref.end();
-  await tgt.end();
+/* ───────────── CLI ───────────── */
+// `--reference <source>` and `--target <source>` read a side from a changelog
+// YAML, a diff directory's snapshot.yaml or a fixtures directory instead of
+// the database (see offline.ts); `--ancestor <source>` overrides the last
+// applied diff directory as the common ancestor of the row merge;
+// `--allow-rule-errors` writes the master changelog despite business rule
+// errors.
+// `promote --from <env> --to <env>` diffs two environments into the target
+// environment's output (see environments.ts).
+async function cli() {
+  const args = process.argv.slice(2);
+  const promote = args[0] === "promote";
+  const option = (name: string, what = "a changelog file or directory") => {
+    const i = args.indexOf(`--${name}`);
+    if (i < 0) return undefined;
+    const value = args[i + 1];
+    if (!value || value.startsWith("--")) throw new Error(`--${name} needs ${what}`);
+    return value;
+  };
+  const [from, to] = [option("from", "an environment"), option("to", "an environment")];
+  if (promote && (!from || !to)) throw new Error("Usage: promote --from <environment> --to <environment>");
+  if (!promote && (from || to)) throw new Error("--from and --to belong to promote");
+  const result = await generateDiff({
+    reference: option("reference"),
+    target: option("target"),
+    ancestor: option("ancestor"),
+    allowRuleErrors: args.includes("--allow-rule-errors"),
+    from,
+    to,
+  });
+  if (result?.blocked) {
+    process.exitCode = 1;
+    return;
+  }
+  const output = process.env.GITHUB_OUTPUT;
+  if (result && output) fs.appendFileSync(output, `diffPath=${result.diffPath}\ndiffDir=${result.diffDir}\n`);
 }
 
-run().catch(e => {
-  console.error(e);
-  process.exit(1);
-});
+// Run as a script; imported, e.g. by the web service, it only exports generateDiff
+if (process.argv[1] && import.meta.url === pathToFileURL(path.resolve(process.argv[1])).href) {
+  cli().catch(e => {
+    console.error(e);
+    process.exitCode = 1;
+  });
+}
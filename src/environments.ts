@@ -0,0 +1,106 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Client, type ClientConfig } from "pg";
+import { CONFIG_FILE, loadConfig, type EnvironmentConfig } from "./config.js";
+import { appliedChangeSets, diffDirectories, directoryTime, unappliedDirectories } from "./history.js";
+
+/*
+ * Named environments of the promotion pipeline, e.g. dev → test → preprod →
+ * prod, from `environments` in the config file. An environment's diff
+ * directories sit below <output>/<name>: `promote` writes them from its
+ * upstream and `sync --target <name>` applies them.
+ */
+const config = loadConfig();
+
+export type Environment = EnvironmentConfig & {
+  name: string;
+  output: string; // its diff directories, relative to the repository root
+  changeLogSchema: string;
+};
+
+export function environment(name: string): Environment {
+  const env = config.environments[name];
+  if (!env) {
+    const known = Object.keys(config.environments);
+    throw new Error(`Unknown environment '${name}'; ${CONFIG_FILE} defines ${known.length ? known.join(", ") : "none"}`);
+  }
+  return { ...env, name, output: `${config.output}/${name}`, changeLogSchema: env.schema ?? config.schemas[0]! };
+}
+
+/* ───────────── CREDENTIALS ───────────── */
+// Fields of a pgpass line, split on ":" that no backslash escapes
+const passFields = (line: string) => {
+  const fields: string[] = [];
+  let field = "";
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\\" && i + 1 < line.length) field += line[++i];
+    else if (line[i] !== ":") field += line[i];
+    else {
+      fields.push(field);
+      field = "";
+    }
+  }
+  return [...fields, field];
+};
+
+// hostname:port:database:username:password, first match wins; `*` matches anything
+const passfilePassword = (file: string, wanted: string[]) => {
+  if (!fs.existsSync(file)) return undefined;
+  for (const line of fs.readFileSync(file, "utf8").split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    const fields = passFields(line);
+    if (fields.length === 5 && wanted.every((w, i) => fields[i] === "*" || fields[i] === w)) return fields[4];
+  }
+  return undefined;
+};
+
+const passfileOf = (env: Environment) =>
+  env.passfile?.replace(/^~(?=$|\/)/, os.homedir()) ?? process.env.PGPASSFILE ?? path.join(os.homedir(), ".pgpass");
+
+/* ───────────── CONNECTIONS ───────────── */
+export function connectionOf(env: Environment): ClientConfig {
+  const user = process.env[env.userEnv] ?? env.user;
+  if (!user) throw new Error(`Environment '${env.name}' has no user: set ${env.userEnv} or environments.${env.name}.user`);
+  const password =
+    process.env[env.passwordEnv] ?? passfilePassword(passfileOf(env), [env.host, String(env.port), env.database, user]);
+  return {
+    host: env.host,
+    port: env.port,
+    database: env.database,
+    user,
+    password,
+    ssl: env.ssl ? { rejectUnauthorized: false } : false,
+  };
+}
+
+export const jdbcUrlOf = (env: Environment) =>
+  `jdbc:postgresql://${env.host}:${env.port}/${env.database}${env.ssl ? "?sslmode=require" : ""}`;
+
+/* ───────────── PIPELINE ───────────── */
+/**
+ * Directories below the environment's own output it has not fully applied.
+ * Changes promoted from it have to come from applied directories, so these
+ * hold promotion and sync downstream.
+ */
+export async function unappliedIn(env: Environment): Promise<string[]> {
+  const root = `./${env.output}`;
+  if (!diffDirectories(root).length) return [];
+  const client = new Client(connectionOf(env));
+  await client.connect();
+  try {
+    return unappliedDirectories(await appliedChangeSets(client, env.changeLogSchema), root);
+  } finally {
+    await client.end().catch(() => {});
+  }
+}
+
+// The first pending directory promoted while the upstream had not applied
+// all of its own directories yet; those before it may run
+export function heldBy(pending: string[], unapplied: string[]): { dir: string; waiting: string[] } | null {
+  for (const dir of pending) {
+    const waiting = unapplied.filter(d => directoryTime(d)! <= directoryTime(dir)!);
+    if (waiting.length) return { dir, waiting };
+  }
+  return null;
+}
@@ -1,24 +1,317 @@
-import { log } from "console";
-import express from "express";
+import { error, log } from "console";
+import express, { type NextFunction, type Request, type Response } from "express";
+import fs from "fs";
+import path from "path";
+import { Client, type ClientConfig } from "pg";
+import { configDotenv } from "dotenv";
+import { loadConfig } from "../config.js";
+import { readConflicts } from "../conflicts.js";
+import { diffRunning, generateDiff, type DiffOptions } from "../diff.js";
+import { connectionOf, environment } from "../environments.js";
+import {
+    appliedChangeSets,
+    changeSetKey,
+    changeSetsOf,
+    DIFF_DIR,
+    diffDirectories,
+    directoryTime,
+    includedFiles,
+    latestTag,
+} from "../history.js";
+import { readReport, type TableReport } from "../report.js";
+import { REVIEW_PAGE } from "./page.js";
+import { changeSetsIn, databaseRows, foreignKeysOf, rowChangesIn } from "./review.js";
+
+configDotenv();
+const config = loadConfig();
 
 const app = express();
 const port: number = 3000;
 
-app.listen(port);
+app.use(express.json());
 
-log("Node application started at port " + port);
+/* ───────────── DATABASES ───────────── */
+const database = (name: string): ClientConfig => ({
+    host: process.env.DB_HOST,
+    port: Number(process.env.PORT ?? 5432),
+    user: process.env.DB_USERNAME,
+    password: process.env.DB_PASSWORD,
+    database: name,
+    ssl: { rejectUnauthorized: false },
+});
+
+// Targets by name: DB_TARGET with the configured output, and each
+// environment with its own. Environment credentials are read on use.
+type Target = { connection: () => ClientConfig; root: string; schema: string };
+const TARGETS = new Map<string, Target>();
+if (process.env.DB_TARGET) {
+    const db = database(process.env.DB_TARGET);
+    TARGETS.set(process.env.DB_TARGET, { connection: () => db, root: DIFF_DIR, schema: config.schemas[0]! });
+}
+for (const env of Object.keys(config.environments).map(environment))
+    TARGETS.set(env.name, { connection: () => connectionOf(env), root: `./${env.output}`, schema: env.changeLogSchema });
+
+// Both sides of the diff, for the review page's row lookups
+const SIDES = new Map<string, ClientConfig>();
+if (process.env.DB_REFERENCE) SIDES.set("reference", database(process.env.DB_REFERENCE));
+if (process.env.DB_TARGET) SIDES.set("target", database(process.env.DB_TARGET));
+
+/* ───────────── VALIDATION ───────────── */
+// Thrown by handlers; the error handler answers with its status and message
+type ApiError = Error & { status: number };
+const apiError = (status: number, message: string): ApiError => Object.assign(new Error(message), { status });
+
+const DIRECTORY = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+const NAME = /^[A-Za-z0-9_.-]+$/;
+const MAX_LIMIT = 500;
+const ROW_OPERATIONS = ["insert", "update", "delete"];
+
+// A diff directory named in the path
+const directoryParam = (value: string) => {
+    if (!DIRECTORY.test(value)) throw apiError(400, `'${value}' is not a diff directory name, e.g. 2026-01-06T09-04-10-177Z`);
+    if (!diffDirectories().includes(value)) throw apiError(404, `Diff directory '${value}' not found`);
+    return value;
+};
+
+const intQuery = (req: Request, name: string, fallback: number, min: number, max = Infinity) => {
+    const raw = req.query[name];
+    if (raw === undefined) return fallback;
+    const n = typeof raw === "string" && /^\d+$/.test(raw) ? Number(raw) : NaN;
+    if (!(n >= min && n <= max)) throw apiError(400, `${name} must be an integer from ${min}${max < Infinity ? ` to ${max}` : ""}`);
+    return n;
+};
+
+const stringQuery = (req: Request, name: string) => {
+    const raw = req.query[name];
+    if (raw === undefined) return undefined;
+    if (typeof raw !== "string" || !raw) throw apiError(400, `${name} must be a non-empty string`);
+    return raw;
+};
 
+const page = (req: Request) => ({
+    offset: intQuery(req, "offset", 0, 0),
+    limit: intQuery(req, "limit", 50, 1, MAX_LIMIT),
+});
+
+// POST /diffs body: optional diff directories whose snapshot.yaml replaces a
+// side, the ancestor of the row merge, allowRuleErrors, and the environments
+// of a promotion
+const DIFF_FIELDS = ["reference", "target", "ancestor"] as const;
+const ENVIRONMENT_FIELDS = ["from", "to"] as const;
+const BODY_FIELDS: string[] = [...DIFF_FIELDS, "allowRuleErrors", ...ENVIRONMENT_FIELDS];
+
+const diffOptions = (body: unknown): DiffOptions => {
+    if (body === undefined) return {};
+    if (typeof body !== "object" || body === null || Array.isArray(body)) throw apiError(400, "Body must be a JSON object");
+    const unknown = Object.keys(body).find(k => !BODY_FIELDS.includes(k));
+    if (unknown) throw apiError(400, `Unknown field '${unknown}', expected ${BODY_FIELDS.join(", ")}`);
+    const options: DiffOptions = {};
+    const { allowRuleErrors } = body as Record<string, unknown>;
+    if (allowRuleErrors !== undefined && typeof allowRuleErrors !== "boolean") throw apiError(400, "allowRuleErrors must be true or false");
+    if (allowRuleErrors) options.allowRuleErrors = true;
+    for (const field of DIFF_FIELDS) {
+        const value = (body as Record<string, unknown>)[field];
+        if (value === undefined) continue;
+        if (typeof value !== "string" || !DIRECTORY.test(value)) throw apiError(400, `${field} must be a diff directory name`);
+        if (!fs.existsSync(path.join(DIFF_DIR, value, "snapshot.yaml"))) throw apiError(400, `${field}: diff directory '${value}' has no snapshot.yaml`);
+        options[field] = path.join(config.output, value);
+    }
+    for (const field of ENVIRONMENT_FIELDS) {
+        const value = (body as Record<string, unknown>)[field];
+        if (value === undefined) continue;
+        if (typeof value !== "string" || !Object.hasOwn(config.environments, value))
+            throw apiError(400, `${field} must be one of the environments ${Object.keys(config.environments).join(", ") || "(none configured)"}`);
+        options[field] = value;
+    }
+    if (!options.from !== !options.to) throw apiError(400, "A promotion needs both from and to");
+    return options;
+};
+
+/* ───────────── DIFF DIRECTORIES ───────────── */
+// Per-table counts without the row samples and hashes
+const tableSummary = ({ updated, hash, ...counts }: TableReport) => counts;
+
+const summaryOf = (dir: string, root = DIFF_DIR) => {
+    const report = fs.existsSync(path.join(root, dir, "report.json")) ? readReport(path.join(root, dir)) : null;
+    const conflicts = readConflicts(path.join(root, dir))?.conflicts ?? [];
+    return {
+        diffPath: dir,
+        generatedAt: report?.generatedAt ?? new Date(directoryTime(dir)!).toISOString(),
+        ancestor: report?.ancestor ?? null,
+        promotion: report?.promotion ?? null,
+        tables: (report?.tables ?? []).map(tableSummary),
+        findings: {
+            errors: (report?.findings ?? []).filter(f => f.severity === "error").length,
+            warnings: (report?.findings ?? []).filter(f => f.severity === "warning").length,
+        },
+        conflicts: {
+            total: conflicts.length,
+            unresolved: conflicts.filter(c => c.resolution !== "reference" && c.resolution !== "target").length,
+        },
+    };
+};
+
+/* ───────────── ROUTES ───────────── */
 app.get("/health", (req, res) => {
-    res.send("OK");
-    res.status(200);
+    res.status(200).send("OK");
 });
 
 app.get("/", (req, res) => {
     res.setHeader('Content-Type', 'text/html');
-    res.send(`
-        <html>
-            <body>
-                <h1>New Node app with ArgoCD!!</h1>
-            </body>
-        </html>`);
-});
\ No newline at end of file
+    res.send(REVIEW_PAGE);
+});
+
+// Diffs take minutes on large catalogues; one runs at a time
+app.post("/diffs", async (req, res) => {
+    const options = diffOptions(req.body);
+    if (diffRunning()) throw apiError(409, "A diff is already being generated");
+    const result = await generateDiff(options).catch(err => {
+        error("Diff failed with error", err);
+        throw apiError(500, `Diff failed: ${err instanceof Error ? err.message : err}`);
+    });
+    if (!result) {
+        res.status(200).json({ inSync: true });
+        return;
+    }
+    // Kept for its report, but no diff directory without a master changelog
+    if (result.blocked) {
+        const errors = result.report.findings.filter(f => f.severity === "error").length;
+        res.status(422).json({
+            error: `${errors} business rule errors; set allowRuleErrors to write the master changelog anyway`,
+            diffPath: result.diffPath,
+            findings: result.report.findings,
+        });
+        return;
+    }
+    // Promotions go below the environment's output, which /diffs does not list
+    if (options.to) {
+        res.status(201).json({ ...summaryOf(result.diffPath, `./${environment(options.to).output}`), diffDir: result.diffDir });
+        return;
+    }
+    res.status(201).location(`/diffs/${result.diffPath}`).json(summaryOf(result.diffPath));
+});
+
+// Newest first
+app.get("/diffs", (req, res) => {
+    const { offset, limit } = page(req);
+    const dirs = diffDirectories().reverse();
+    res.json({ total: dirs.length, offset, limit, items: dirs.slice(offset, offset + limit).map(dir => summaryOf(dir)) });
+});
+
+app.get("/diffs/:ts", (req, res) => {
+    const dir = directoryParam(req.params.ts);
+    const report = fs.existsSync(path.join(DIFF_DIR, dir, "report.json")) ? readReport(path.join(DIFF_DIR, dir)) : null;
+    res.json({
+        ...summaryOf(dir),
+        tables: report?.tables ?? [],
+        files: includedFiles(dir).map(f => path.basename(f)),
+    });
+});
+
+// `table` narrows the page to one "schema.table"
+app.get("/diffs/:ts/changesets", (req, res) => {
+    const dir = directoryParam(req.params.ts);
+    const { offset, limit } = page(req);
+    const table = stringQuery(req, "table");
+    const changeSets = changeSetsIn(dir).filter(c => table === undefined || c.table === table);
+    res.json({ total: changeSets.length, offset, limit, items: changeSets.slice(offset, offset + limit) });
+});
+
+// Row changes of the insert, update and delete changeSets with their FK
+// links. `key` matches the key exactly, `search` any part of it.
+app.get("/diffs/:ts/rows", async (req, res) => {
+    const dir = directoryParam(req.params.ts);
+    const { offset, limit } = page(req);
+    const [table, operation, key, search] = ["table", "operation", "key", "search"].map(name => stringQuery(req, name));
+    if (operation !== undefined && !ROW_OPERATIONS.includes(operation)) throw apiError(400, `operation must be one of ${ROW_OPERATIONS.join(", ")}`);
+    const fks = await foreignKeysOf(dir, SIDES.get("reference") ?? null, config.schemas).catch(err => {
+        error(`Foreign keys of ${dir} failed with error ${err}`);
+        return [];
+    });
+    const needle = search?.toLowerCase();
+    const rows = rowChangesIn(dir, fks).filter(r =>
+        (table === undefined || r.table === table) &&
+        (operation === undefined || r.operation === operation) &&
+        (key === undefined || r.key === key) &&
+        (needle === undefined || r.key.toLowerCase().includes(needle))
+    );
+    res.json({ total: rows.length, offset, limit, items: rows.slice(offset, offset + limit) });
+});
+
+app.get("/diffs/:ts/foreign-keys", async (req, res) => {
+    const dir = directoryParam(req.params.ts);
+    const fks = await foreignKeysOf(dir, SIDES.get("reference") ?? null, config.schemas).catch(err => {
+        error(`Foreign keys of ${dir} failed with error ${err}`);
+        throw apiError(502, "Could not read the foreign keys from the reference database");
+    });
+    res.json({ items: fks });
+});
+
+// Rows of a "schema.table" whose columns equal the query's values, for
+// following FK links to rows no diff changes
+app.get("/databases/:side/tables/:table/rows", async (req, res) => {
+    const { side, table } = req.params;
+    const db = SIDES.get(side);
+    if (!db) throw apiError(404, `Unknown database '${side}', expected ${[...SIDES.keys()].join(" or ") || "none configured"}`);
+    const key: Record<string, string> = {};
+    for (const [column, value] of Object.entries(req.query)) {
+        if (typeof value !== "string") throw apiError(400, `${column} must be given once`);
+        key[column] = value;
+    }
+    const found = await databaseRows(db, config.schemas, table, key).catch(err => {
+        error(`Rows of ${table} on the ${side} database failed with error ${err}`);
+        throw apiError(502, `Could not read ${table} from the ${side} database`);
+    });
+    if (!found) throw apiError(404, `No table '${table}' with columns ${Object.keys(key).join(", ") || "(none)"} on the ${side} database`);
+    res.json({ database: side, table, ...found });
+});
+
+// Per diff directory, how many of its changeSets the target's databasechangelog records
+app.get("/targets/:name/status", async (req, res) => {
+    const { name } = req.params;
+    if (!NAME.test(name)) throw apiError(400, `'${name}' is not a target name`);
+    const target = TARGETS.get(name);
+    if (!target) throw apiError(404, `Unknown target '${name}'`);
+
+    let client: Client | null = null;
+    try {
+        client = new Client(target.connection());
+        await client.connect();
+        const [tagged, applied] = await Promise.all([latestTag(client, target.schema), appliedChangeSets(client, target.schema)]);
+        const directories = diffDirectories(target.root).map(dir => {
+            const changeSets = changeSetsOf(dir, target.root);
+            const done = changeSets.filter(c => applied.has(changeSetKey(c.id, c.author, c.file))).length;
+            const state = done === changeSets.length ? "applied" : done ? "partial" : "pending";
+            return { diffPath: dir, changeSets: changeSets.length, applied: done, state };
+        });
+        res.json({
+            target: name,
+            latestTag: tagged ? { tag: tagged.tag, at: new Date(tagged.dateexecuted).toISOString() } : null,
+            applied: directories.filter(d => d.state === "applied").map(d => d.diffPath),
+            directories,
+        });
+    } catch (err) {
+        error(`Status of target '${name}' failed with error ${err}`);
+        throw apiError(502, `Could not read the history of target '${name}'`);
+    } finally {
+        await client?.end().catch(() => {});
+    }
+});
+
+/* ───────────── ERRORS ───────────── */
+app.use((req: Request, res: Response) => {
+    res.status(404).json({ error: `No route for ${req.method} ${req.path}` });
+});
+
+// Malformed JSON bodies arrive here with a status of 400 as well; messages
+// of errors without a status are not passed on
+app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+    const { status, message } = (err ?? {}) as { status?: unknown; message?: unknown };
+    const known = typeof status === "number" && Number.isInteger(status) && status >= 400 && status < 600;
+    if (!known) error(`${req.method} ${req.path} failed with error`, err);
+    res.status(known ? status : 500).json({ error: known ? String(message) : "Internal server error" });
+});
+
+app.listen(port);
+
+log("Node application started at port " + port);
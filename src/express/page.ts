@@ -0,0 +1,267 @@
+/**
+ * Review page served at /: pick a diff directory, browse its tables and read
+ * the inserted, deleted and updated rows. FK values link to the parent row's
+ * changes in the same directory and to the row on both databases. Plain
+ * HTML and script on top of the JSON routes, so it needs no build step.
+ */
+export const REVIEW_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Catalogue diff review</title>
+<style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font: 14px/1.4 system-ui, sans-serif; color: #222; display: grid; grid-template: auto 1fr / 280px 1fr 360px; height: 100vh; }
+    header { grid-column: 1 / 4; display: flex; gap: 12px; align-items: center; padding: 8px 12px; background: #263238; color: #fff; }
+    header h1 { font-size: 16px; margin: 0 12px 0 0; }
+    header .note { color: #b0bec5; }
+    nav, main, aside { overflow: auto; padding: 8px 12px; }
+    nav { border-right: 1px solid #ddd; }
+    aside { border-left: 1px solid #ddd; background: #fafafa; }
+    input, select, button { font: inherit; }
+    input[type=search] { width: 100%; margin-bottom: 8px; }
+    ul.tables { list-style: none; margin: 0; padding: 0; }
+    ul.tables li { padding: 3px 6px; cursor: pointer; border-radius: 3px; display: flex; justify-content: space-between; gap: 6px; }
+    ul.tables li:hover { background: #eceff1; }
+    ul.tables li.selected { background: #cfd8dc; }
+    .counts span { margin-left: 4px; font-size: 12px; }
+    .ins { color: #2e7d32; } .upd { color: #ef6c00; } .del { color: #c62828; } .cfl { color: #6a1b9a; }
+    .tabs button { border: 1px solid #ccc; background: #fff; padding: 2px 10px; cursor: pointer; }
+    .tabs button.active { background: #263238; color: #fff; }
+    .toolbar { display: flex; gap: 8px; align-items: center; margin: 8px 0; }
+    .toolbar input { flex: 1; margin: 0; }
+    .relations { color: #555; margin: 4px 0; }
+    .change { border: 1px solid #ddd; border-radius: 4px; margin: 8px 0; }
+    .change .head { padding: 4px 8px; background: #f5f5f5; border-bottom: 1px solid #ddd; display: flex; gap: 8px; }
+    .change .id { color: #777; font-size: 12px; margin-left: auto; }
+    .grid { overflow-x: auto; padding: 4px 8px; }
+    table { border-collapse: collapse; font-size: 13px; }
+    th, td { border: 1px solid #e0e0e0; padding: 2px 6px; text-align: left; vertical-align: top; white-space: pre-wrap; max-width: 320px; word-break: break-word; }
+    th { background: #fafafa; font-weight: 600; }
+    td.before { background: #ffebee; } td.after { background: #e8f5e9; }
+    td.null { color: #999; font-style: italic; }
+    a { color: #1565c0; cursor: pointer; }
+    .muted { color: #777; }
+    .error { color: #c62828; }
+    h2 { font-size: 15px; margin: 8px 0; } h3 { font-size: 14px; margin: 12px 0 4px; }
+</style>
+</head>
+<body>
+<header>
+    <h1>Catalogue diff review</h1>
+    <select id="directory"></select>
+    <span id="summary" class="note"></span>
+</header>
+<nav>
+    <input id="tableFilter" type="search" placeholder="Filter tables">
+    <ul id="tables" class="tables"></ul>
+</nav>
+<main id="main"><p class="muted">Pick a table.</p></main>
+<aside id="aside"><p class="muted">Follow a linked value to see the row it points at.</p></aside>
+<script>
+"use strict";
+var PAGE = 100;
+var state = { dir: null, detail: null, table: null, operation: "", search: "", shown: 0, fks: [] };
+
+var $ = function (id) { return document.getElementById(id); };
+var esc = function (v) {
+    return String(v).replace(/[&<>"']/g, function (c) { return "&#" + c.charCodeAt(0) + ";"; });
+};
+var api = function (url) {
+    return fetch(url).then(function (res) {
+        return res.json().then(function (body) {
+            if (!res.ok) throw new Error(body.error || res.statusText);
+            return body;
+        });
+    });
+};
+var query = function (params) {
+    return Object.keys(params).filter(function (k) { return params[k] !== "" && params[k] != null; })
+        .map(function (k) { return encodeURIComponent(k) + "=" + encodeURIComponent(params[k]); }).join("&");
+};
+var keyText = function (key) {
+    return Object.keys(key).map(function (c) { return c + " = " + (key[c] === null ? "NULL" : key[c]); }).join(", ");
+};
+
+/* Values; linked ones open the parent row in the side panel */
+var links = [];
+var cell = function (value, link, cls) {
+    var classes = (cls || "") + (value === null ? " null" : "");
+    var text = value === null ? "NULL" : esc(value);
+    if (link) {
+        links.push(link);
+        text = '<a data-link="' + (links.length - 1) + '" title="' + esc(link.table + ": " + keyText(link.key)) + '">' + text + "</a>";
+    }
+    return '<td class="' + classes + '">' + text + "</td>";
+};
+
+/* ── Directories ── */
+var loadDirectories = function () {
+    return api("/diffs?limit=500").then(function (page) {
+        $("directory").innerHTML = page.items.map(function (d) {
+            return '<option value="' + esc(d.diffPath) + '">' + esc(d.diffPath) + "</option>";
+        }).join("");
+        if (!page.items.length) {
+            $("main").innerHTML = '<p class="muted">No diff directories yet.</p>';
+            return;
+        }
+        var wanted = decodeURIComponent(location.hash.slice(1)).split("|");
+        var known = page.items.some(function (d) { return d.diffPath === wanted[0]; });
+        return openDirectory(known ? wanted[0] : page.items[0].diffPath, known ? wanted[1] : null);
+    });
+};
+
+var openDirectory = function (dir, table) {
+    state.dir = dir;
+    $("directory").value = dir;
+    return Promise.all([api("/diffs/" + dir), api("/diffs/" + dir + "/foreign-keys")]).then(function (r) {
+        state.detail = r[0];
+        state.fks = r[1].items;
+        var d = state.detail;
+        var rows = d.tables.reduce(function (n, t) { return n + t.inserts + t.updates + t.deletes; }, 0);
+        $("summary").innerHTML = esc(d.tables.length + " tables, " + rows + " row changes") +
+            (d.ancestor ? esc(", merged against " + d.ancestor) : "") +
+            (d.conflicts.unresolved ? ' <span class="cfl">' + d.conflicts.unresolved + " unresolved conflicts</span>" : "");
+        renderTables();
+        var first = d.tables.find(function (t) { return t.table === table; }) || d.tables[0];
+        if (first) openTable(first.table, "");
+        else $("main").innerHTML = '<p class="muted">No table changes.</p>';
+    });
+};
+
+var renderTables = function () {
+    if (!state.detail) return;
+    var filter = $("tableFilter").value.toLowerCase();
+    $("tables").innerHTML = state.detail.tables
+        .filter(function (t) { return t.table.toLowerCase().indexOf(filter) >= 0; })
+        .map(function (t) {
+            var counts = (t.inserts ? '<span class="ins">+' + t.inserts + "</span>" : "") +
+                (t.updates ? '<span class="upd">~' + t.updates + "</span>" : "") +
+                (t.deletes ? '<span class="del">-' + t.deletes + "</span>" : "") +
+                (t.conflicts ? '<span class="cfl">!' + t.conflicts + "</span>" : "") +
+                (t.status !== "existing" ? '<span class="muted">' + t.status + "</span>" : "");
+            return '<li data-table="' + esc(t.table) + '"' + (t.table === state.table ? ' class="selected"' : "") + ">" +
+                "<span>" + esc(t.table) + '</span><span class="counts">' + counts + "</span></li>";
+        }).join("");
+};
+
+/* ── Table changes ── */
+var openTable = function (table, search) {
+    state.table = table;
+    state.operation = "";
+    state.search = search;
+    location.hash = encodeURIComponent(state.dir + "|" + table);
+    renderTables();
+    var t = state.detail.tables.find(function (x) { return x.table === table; }) || { inserts: 0, updates: 0, deletes: 0, schemaChanges: 0 };
+    var tab = function (op, label, n) {
+        return '<button data-operation="' + op + '"' + (op === "" ? ' class="active"' : "") + ">" + label + (n === null ? "" : " " + n) + "</button>";
+    };
+    var parents = state.fks.filter(function (f) { return f.child === table; }).map(function (f) { return f.parent; });
+    var children = state.fks.filter(function (f) { return f.parent === table; }).map(function (f) { return f.child; });
+    var related = function (label, names) {
+        names = names.filter(function (n, i) { return names.indexOf(n) === i; });
+        return names.length ? label + " " + names.map(function (n) { return '<a data-table="' + esc(n) + '">' + esc(n) + "</a>"; }).join(", ") : "";
+    };
+    $("main").innerHTML = "<h2>" + esc(table) + "</h2>" +
+        '<div class="relations">' + [related("References", parents), related("Referenced by", children)].filter(Boolean).join(" · ") + "</div>" +
+        (t.schemaChanges ? '<div class="muted">' + t.schemaChanges + " schema changeSets, see the changelog</div>" : "") +
+        '<div class="toolbar"><span class="tabs">' + tab("", "All", null) + tab("insert", "Inserted", t.inserts) +
+        tab("update", "Updated", t.updates) + tab("delete", "Deleted", t.deletes) + "</span>" +
+        '<input id="search" type="search" placeholder="Filter by key" value="' + esc(search) + '"></div>' +
+        '<div id="changes"></div><button id="more" hidden>Show more</button>';
+    loadChanges(false);
+};
+
+var loadChanges = function (append) {
+    var offset = append ? state.shown : 0;
+    var url = "/diffs/" + state.dir + "/rows?" + query({ table: state.table, operation: state.operation, search: state.search, offset: offset, limit: PAGE });
+    return api(url).then(function (page) {
+        if (!append) { $("changes").innerHTML = ""; links = []; }
+        $("changes").insertAdjacentHTML("beforeend", page.items.map(renderChange).join("") ||
+            (append ? "" : '<p class="muted">No row changes' + (state.search ? " with a key containing '" + esc(state.search) + "'" : "") + ".</p>"));
+        state.shown = offset + page.items.length;
+        $("more").hidden = state.shown >= page.total;
+        $("more").textContent = "Show more (" + (page.total - state.shown) + " left)";
+    }).catch(function (err) {
+        $("changes").innerHTML = '<p class="error">' + esc(err.message) + "</p>";
+    });
+};
+
+var LABELS = { insert: ["ins", "Inserted"], update: ["upd", "Updated"], delete: ["del", "Deleted"] };
+
+var renderChange = function (c) {
+    var label = LABELS[c.operation];
+    var body;
+    if (c.operation === "update") {
+        body = "<table><tr><th></th>" + c.columns.map(function (x) { return "<th>" + esc(x.column) + "</th>"; }).join("") + "</tr>" +
+            '<tr><th>before</th>' + c.columns.map(function (x) { return cell(x.before, x.links.before, "before"); }).join("") + "</tr>" +
+            '<tr><th>after</th>' + c.columns.map(function (x) { return cell(x.after, x.links.after, "after"); }).join("") + "</tr></table>";
+    } else {
+        var columns = Object.keys(c.values);
+        body = "<table><tr>" + columns.map(function (k) { return "<th>" + esc(k) + "</th>"; }).join("") + "</tr><tr>" +
+            columns.map(function (k) { return cell(c.values[k], c.links[k], ""); }).join("") + "</tr></table>";
+    }
+    return '<div class="change"><div class="head"><b class="' + label[0] + '">' + label[1] + "</b><span>" + esc(c.key) + "</span>" +
+        '<span class="id" title="' + esc(c.file) + '">' + esc(c.id) + "</span></div>" +
+        '<div class="grid">' + body + "</div></div>";
+};
+
+/* ── Linked rows ── */
+// The parent's changes in this directory, found by its diff key, and its row on both databases
+var follow = function (link) {
+    var columns = Object.keys(link.key);
+    var diffKey = columns.map(function (c) { return link.key[c]; }).join("|");
+    $("aside").innerHTML = "<h2>" + esc(link.table) + "</h2><div>" + esc(keyText(link.key)) + "</div>" +
+        '<p><a data-table="' + esc(link.table) + '" data-search="' + esc(diffKey) + '">Open in the table list</a></p>' +
+        '<h3>In this diff</h3><div id="linkedChanges" class="muted">Loading…</div>' +
+        '<h3>Reference database</h3><div id="linkedReference" class="muted">Loading…</div>' +
+        '<h3>Target database</h3><div id="linkedTarget" class="muted">Loading…</div>';
+
+    api("/diffs/" + state.dir + "/rows?" + query({ table: link.table, key: diffKey, limit: 10 })).then(function (page) {
+        $("linkedChanges").innerHTML = page.items.length ? page.items.map(renderChange).join("") : "No changes to this row.";
+    }).catch(function (err) { $("linkedChanges").innerHTML = '<span class="error">' + esc(err.message) + "</span>"; });
+
+    [["reference", "linkedReference"], ["target", "linkedTarget"]].forEach(function (side) {
+        var params = {};
+        columns.forEach(function (c) { if (link.key[c] !== null) params[c] = link.key[c]; });
+        api("/databases/" + side[0] + "/tables/" + encodeURIComponent(link.table) + "/rows?" + query(params)).then(function (result) {
+            $(side[1]).innerHTML = result.rows.length ? result.rows.map(function (row) {
+                return "<table>" + Object.keys(row).map(function (k) { return "<tr><th>" + esc(k) + "</th>" + cell(row[k], null, "") + "</tr>"; }).join("") + "</table>";
+            }).join("<br>") + (result.more ? "<p>More rows match.</p>" : "") : "No such row.";
+        }).catch(function (err) { $(side[1]).innerHTML = '<span class="error">' + esc(err.message) + "</span>"; });
+    });
+};
+
+/* ── Events ── */
+$("directory").addEventListener("change", function (e) { openDirectory(e.target.value, null); });
+$("tableFilter").addEventListener("input", renderTables);
+$("tables").addEventListener("click", function (e) {
+    var li = e.target.closest("li[data-table]");
+    if (li) openTable(li.dataset.table, "");
+});
+document.addEventListener("click", function (e) {
+    var a = e.target.closest("a[data-link], a[data-table], button[data-operation], #more");
+    if (!a) return;
+    if (a.id === "more") loadChanges(true);
+    else if (a.dataset.link !== undefined) follow(links[Number(a.dataset.link)]);
+    else if (a.dataset.table !== undefined) openTable(a.dataset.table, a.dataset.search || "");
+    else {
+        state.operation = a.dataset.operation;
+        document.querySelectorAll(".tabs button").forEach(function (b) { b.classList.toggle("active", b === a); });
+        loadChanges(false);
+    }
+});
+var searchTimer = null;
+document.addEventListener("input", function (e) {
+    if (e.target.id !== "search") return;
+    clearTimeout(searchTimer);
+    searchTimer = setTimeout(function () { state.search = e.target.value.trim(); loadChanges(false); }, 250);
+});
+
+loadDirectories().catch(function (err) {
+    $("main").innerHTML = '<p class="error">' + esc(err.message) + "</p>";
+});
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import { Client, type ClientConfig } from "pg";
+import { RAW_TEXT, type PgText } from "../codec.js";
+import { DIFF_DIR, includedFiles } from "../history.js";
+import {
+    lookupOf,
+    overridingInsertOf,
+    readChangeLog,
+    type Change,
+    type ChangeColumn,
+    type Changes,
+    type ChangeSet,
+} from "../offline.js";
+import { pgSource, splitName, sqlName, type FK } from "../source.js";
+
+/* ───────────── CHANGESETS ───────────── */
+export type ChangeSetEntry = {
+    file: string;
+    id: string;
+    author: string;
+    table: string | null;
+    operation: string | null;
+    changes: Changes;
+    rollback: ChangeSet["rollback"] | null;
+};
+
+const decodeKey = (part: string) => {
+    try {
+        return decodeURIComponent(part);
+    } catch {
+        return part; // cut inside an escape, see escapeKey in diff.ts
+    }
+};
+
+// ChangeSets of a directory in the order the master changelog runs them
+export const changeSetsIn = (dir: string): ChangeSetEntry[] =>
+    includedFiles(dir).flatMap(file => {
+        return (readChangeLog(file)?.databaseChangeLog ?? [])
+            .flatMap(entry => (entry?.changeSet ? [entry.changeSet] : []))
+            .map(changeSet => {
+                // <diff timestamp>/<table>/<key>/<operation>/<content hash>
+                const [, table, , operation] = String(changeSet.id).split("/");
+                return {
+                    file: path.basename(file),
+                    id: String(changeSet.id),
+                    author: String(changeSet.author),
+                    table: table === undefined ? null : decodeKey(table),
+                    operation: operation ?? null,
+                    changes: changeSet.changes ?? [],
+                    rollback: changeSet.rollback ?? null,
+                };
+            });
+    });
+
+/* ───────────── FOREIGN KEYS ───────────── */
+// FKs as the directory leaves the target: the snapshot's with the ones its
+// changelogs add or drop applied. Without a snapshot the reference database
+// is asked, and without one of those links come from lookups only.
+const fkCache = new Map<string, FK[]>();
+
+const qualified = (schema: unknown, table: unknown, fallback: string) =>
+    `${schema == null ? fallback : String(schema)}.${String(table)}`;
+
+const names = (v: unknown) => String(v ?? "").split(",").map(s => s.trim()).filter(Boolean);
+
+const changeLogFKs = (files: string[], schema: string) => {
+    const fks = new Map<string, FK>();
+    for (const file of files) {
+        for (const change of (readChangeLog(file)?.databaseChangeLog ?? []).flatMap(e => e?.changeSet?.changes ?? [])) {
+            const add = change?.addForeignKeyConstraint;
+            const drop = change?.dropForeignKeyConstraint;
+            if (add) {
+                const child = qualified(add.baseTableSchemaName, add.baseTableName, schema);
+                fks.set(`${child}/${add.constraintName}`, {
+                    name: String(add.constraintName),
+                    child,
+                    parent: qualified(add.referencedTableSchemaName, add.referencedTableName, schema),
+                    childCols: names(add.baseColumnNames),
+                    parentCols: names(add.referencedColumnNames),
+                    onUpdate: String(add.onUpdate ?? "NO ACTION"),
+                    onDelete: String(add.onDelete ?? "NO ACTION"),
+                    deferrable: add.deferrable === true,
+                    initiallyDeferred: add.initiallyDeferred === true,
+                });
+            }
+            if (drop) fks.delete(`${qualified(drop.baseTableSchemaName, drop.baseTableName, schema)}/${drop.constraintName}`);
+        }
+    }
+    return [...fks.values()];
+};
+
+export async function foreignKeysOf(dir: string, reference: ClientConfig | null, schemas: string[]): Promise<FK[]> {
+    const cached = fkCache.get(dir);
+    if (cached) return cached;
+    const snapshot = path.join(DIFF_DIR, dir, "snapshot.yaml");
+    let fks: FK[] = [];
+    if (fs.existsSync(snapshot)) fks = changeLogFKs([snapshot, ...includedFiles(dir)], schemas[0]!);
+    else if (reference) {
+        const source = await pgSource(reference, schemas);
+        try {
+            fks = await source.fks();
+        } finally {
+            await source.close();
+        }
+    }
+    fkCache.set(dir, fks);
+    return fks;
+}
+
+/* ───────────── ROW CHANGES ───────────── */
+// A parent row by the values of some of its columns
+export type Link = { table: string; key: Record<string, PgText> };
+
+export type RowChange = {
+    id: string;
+    file: string;
+    table: string;
+    operation: "insert" | "update" | "delete";
+    key: string;
+    // insert: the reference row as written, without surrogate keys; delete: the
+    // target row the rollback restores
+    values: Record<string, PgText>;
+    // update: the changed columns only
+    columns: { column: string; before: PgText; after: PgText; links: { before?: Link; after?: Link } }[];
+    links: Record<string, Link>; // by column of `values`
+};
+
+const ROW_OPERATIONS = new Set(["insert", "update", "delete"]);
+
+// Values as they read in the changelog: literals unquoted, lookups and other
+// expressions as SQL, blobs by file
+const columnText = (c: ChangeColumn): PgText => {
+    if (c.valueBlobFile != null) return `<blob ${c.valueBlobFile}>`;
+    if (c.valueComputed != null) {
+        const sql = String(c.valueComputed);
+        const m = /^'((?:[^']|'')*)'(?:::.+)?$/s.exec(sql);
+        return m ? m[1]!.replace(/''/g, "'") : sql;
+    }
+    const v = c.valueNumeric ?? c.valueBoolean ?? c.valueDate ?? c.value;
+    return v == null ? null : String(v);
+};
+
+const columnsOf = (change: Change | null): [string, PgText][] =>
+    (change?.columns ?? []).flatMap(e => (e?.column ? [[String(e.column.name), columnText(e.column)] as [string, PgText]] : []));
+
+// First change of a kind in a changeSet's changes or rollback
+const changeOf = (changes: ChangeSet["rollback"] | undefined, kind: string): Change | null =>
+    (Array.isArray(changes) ? changes : []).find(c => c?.[kind])?.[kind] ?? null;
+
+// Row of an insert change, or of the SQL insert written for GENERATED ALWAYS
+// identity columns
+const insertedRow = (changes: ChangeSet["rollback"] | undefined): [string, PgText][] => {
+    const insert = changeOf(changes, "insert");
+    if (insert) return columnsOf(insert);
+    const sql = changeOf(changes, "sql")?.sql;
+    try {
+        const row = sql == null ? null : overridingInsertOf(String(sql), "sql");
+        return (row?.columns ?? []).map(c => [c.column, "literal" in c.operand ? c.operand.literal : c.sql]);
+    } catch {
+        return [];
+    }
+};
+
+// Links of a row's values: business key lookups, and columns of FKs whose
+// child columns all hold a value
+const linksOf = (table: string, values: Map<string, PgText>, fks: FK[]) => {
+    const links = new Map<string, Link>();
+    for (const [column, value] of values) {
+        const lookup = value === null ? null : lookupOf(value);
+        if (lookup) links.set(column, { table: lookup.table, key: lookup.key });
+    }
+    for (const f of fks) {
+        if (f.child !== table || links.has(f.childCols[0]!)) continue;
+        const parts = f.childCols.map(c => values.get(c));
+        if (parts.some(v => v == null || lookupOf(v) !== null)) continue;
+        links.set(f.childCols[0]!, { table: f.parent, key: Object.fromEntries(f.parentCols.map((c, i) => [c, parts[i]!])) });
+    }
+    return links;
+};
+
+const rowChange = (c: ChangeSetEntry, fks: FK[]): RowChange | null => {
+    if (!c.table || !c.operation || !ROW_OPERATIONS.has(c.operation)) return null;
+    const [, , key = "-"] = c.id.split("/");
+    const operation = c.operation as RowChange["operation"];
+    const base = { id: c.id, file: c.file, table: c.table, operation, key: decodeKey(key), values: {}, columns: [], links: {} };
+
+    if (c.operation === "update") {
+        const after = new Map(columnsOf(changeOf(c.changes, "update")));
+        const before = new Map(columnsOf(changeOf(c.rollback, "update")));
+        const [afterLinks, beforeLinks] = [linksOf(c.table, after, fks), linksOf(c.table, before, fks)];
+        return {
+            ...base,
+            columns: [...after].map(([column, value]) => ({
+                column,
+                before: before.get(column) ?? null,
+                after: value,
+                links: { before: beforeLinks.get(column), after: afterLinks.get(column) },
+            })),
+        };
+    }
+    // A delete's row is the insert of its rollback
+    const row = new Map(insertedRow(c.operation === "insert" ? c.changes : c.rollback));
+    return {
+        ...base,
+        values: Object.fromEntries(row),
+        links: Object.fromEntries(linksOf(c.table, row, fks)),
+    };
+};
+
+export const rowChangesIn = (dir: string, fks: FK[]): RowChange[] =>
+    changeSetsIn(dir).flatMap(c => rowChange(c, fks) ?? []);
+
+/* ───────────── DATABASE ROWS ───────────── */
+const MAX_ROWS = 20;
+
+/**
+ * Rows of a table whose columns equal the given values, compared as text.
+ * Tables outside the schemas and unknown columns are reported as null.
+ */
+export async function databaseRows(
+    db: ClientConfig,
+    schemas: string[],
+    table: string,
+    key: Record<string, string>
+): Promise<{ rows: Record<string, PgText>[]; more: boolean } | null> {
+    const { schema, table: name } = splitName(table);
+    if (!name || !schemas.includes(schema)) return null;
+    const client = new Client(db);
+    await client.connect();
+    try {
+        const { rows: columns } = await client.query(
+            "SELECT column_name FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2",
+            [schema, name]
+        );
+        const known = new Set(columns.map(c => String(c.column_name)));
+        const filters = Object.keys(key);
+        if (!known.size || filters.some(c => !known.has(c))) return null;
+
+        const where = filters.map((c, i) => `"${c.replace(/"/g, '""')}"::text = $${i + 1}`).join(" AND ");
+        const { rows } = await client.query({
+            text: `SELECT * FROM ${sqlName(table)}${where ? ` WHERE ${where}` : ""} LIMIT ${MAX_ROWS + 1}`,
+            values: filters.map(c => key[c]),
+            types: RAW_TEXT,
+        });
+        return { rows: rows.slice(0, MAX_ROWS), more: rows.length > MAX_ROWS };
+    } finally {
+        await client.end().catch(() => {});
+    }
+}
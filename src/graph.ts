@@ -0,0 +1,50 @@
+/**
+ * Strongly connected components of a directed graph (Tarjan), without
+ * recursion so long parent chains cannot overflow the stack. A component
+ * comes after every component it reaches, so with child → parent edges the
+ * result lists parents first. Nodes are visited in the given order, which
+ * also orders the nodes of a component.
+ */
+export function components(nodes: Iterable<string>, next: (node: string) => Iterable<string>): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const out: string[][] = [];
+
+  const enter = (node: string) => {
+    index.set(node, index.size);
+    low.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+    return { node, successors: next(node)[Symbol.iterator]() };
+  };
+
+  for (const root of nodes) {
+    if (index.has(root)) continue;
+    const work = [enter(root)];
+    while (work.length) {
+      const top = work[work.length - 1]!;
+      const step = top.successors.next();
+      if (!step.done) {
+        const successor = step.value;
+        if (!index.has(successor)) work.push(enter(successor));
+        else if (onStack.has(successor)) low.set(top.node, Math.min(low.get(top.node)!, index.get(successor)!));
+        continue;
+      }
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) low.set(parent.node, Math.min(low.get(parent.node)!, low.get(top.node)!));
+      if (low.get(top.node) !== index.get(top.node)) continue;
+      const component: string[] = [];
+      let n: string;
+      do {
+        n = stack.pop()!;
+        onStack.delete(n);
+        component.push(n);
+      } while (n !== top.node);
+      out.push(component.reverse());
+    }
+  }
+  return out;
+}
@@ -0,0 +1,67 @@
+import fs from "fs";
+import type { Client } from "pg";
+import { loadConfig } from "./config.js";
+
+/*
+ * Diff directories on disk and the changeSets a target has run, as read by
+ * sync, the diff's row merge and the web service. Directories sit below
+ * DIFF_DIR, or below the root of an environment (see environments.ts).
+ */
+const config = loadConfig();
+const SCHEMA = config.schemas[0]!;
+export const DIFF_DIR = `./${config.output}`;
+
+export type ChangeSetRef = { id: string; author: string; file: string };
+
+// Liquibase records include paths without the leading "./"
+export const changeSetKey = (id: string, author: string, file: string) =>
+  `${file.replace(/^\.\//, "")}::${id}::${author}`;
+
+// Diff directories are named after `toISOString()` with ":" and "." replaced
+// by "-", e.g. 2026-01-06T09-04-10-177Z
+export const directoryTime = (name: string): number | null => {
+  const m = name.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/);
+  return m ? Date.parse(`${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5]}Z`) : null;
+};
+
+// Directories holding a master changelog, oldest first
+export const diffDirectories = (root = DIFF_DIR): string[] =>
+  fs.existsSync(root)
+    ? fs.readdirSync(root)
+        .filter(d => directoryTime(d) !== null && fs.existsSync(`${root}/${d}/master-changelog.yaml`))
+        .sort((a, b) => directoryTime(a)! - directoryTime(b)!)
+    : [];
+
+// Files a directory's master changelog includes, in order
+export const includedFiles = (dir: string, root = DIFF_DIR): string[] =>
+  [...fs.readFileSync(`${root}/${dir}/master-changelog.yaml`, "utf8").matchAll(/file:\s*(\S+)/g)].map(m => m[1]!);
+
+// Every changeSet of the files a directory's master changelog includes
+export const changeSetsOf = (dir: string, root = DIFF_DIR): ChangeSetRef[] =>
+  includedFiles(dir, root).flatMap(file =>
+    [...fs.readFileSync(file, "utf8").matchAll(/^- changeSet:\s*\n\s+id:\s*(.+?)\s*\n\s+author:\s*(.+?)\s*$/gm)]
+      .map(c => ({ id: c[1]!, author: c[2]!, file }))
+  );
+
+// Keys of every changeSet the target has run; none before its first update
+export const appliedChangeSets = async (client: Client, schema = SCHEMA): Promise<Set<string>> => {
+  const exists = await client.query(`SELECT to_regclass('"${schema}".databasechangelog') IS NOT NULL AS exists`);
+  if (!exists.rows[0].exists) return new Set();
+  const r = await client.query(`SELECT id, author, filename FROM "${schema}".databasechangelog`);
+  return new Set(r.rows.map(r => changeSetKey(r.id, r.author, r.filename)));
+};
+
+// Most recent tag in the target's databasechangelog
+export const latestTag = async (client: Client, schema = SCHEMA): Promise<{ tag: string; dateexecuted: Date } | null> => {
+  const exists = await client.query(`SELECT to_regclass('"${schema}".databasechangelog') IS NOT NULL AS exists`);
+  if (!exists.rows[0].exists) return null;
+  const tagged = await client.query(`
+    SELECT tag, dateexecuted FROM "${schema}".databasechangelog
+    WHERE tag IS NOT NULL ORDER BY orderexecuted DESC LIMIT 1
+  `);
+  return tagged.rows[0] ?? null;
+};
+
+// Directories with a changeSet the target has not run, oldest first
+export const unappliedDirectories = (applied: Set<string>, root = DIFF_DIR): string[] =>
+  diffDirectories(root).filter(dir => changeSetsOf(dir, root).some(c => !applied.has(changeSetKey(c.id, c.author, c.file))));
@@ -0,0 +1,105 @@
+import { error, log } from "console";
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { loadConfig } from "./config.js";
+import { CONFLICTS_FILE } from "./conflicts.js";
+
+/**
+ * npm run lint
+ * Checks every changelog under the diff output directory and db/master
+ * without a database: YAML Liquibase could not parse, changeSets missing an
+ * id, author or changes, duplicate id/author/file triples, includes of
+ * missing files and files included more than once. Exits 1 on any problem.
+ */
+const config = loadConfig();
+const ROOTS = [config.output, "db/master"];
+// YAML next to the changelogs that is no changelog
+const DATA_FILES = new Set([CONFLICTS_FILE]);
+
+type Problem = { file: string; message: string };
+
+const init = () => {
+  const problems: Problem[] = [];
+  const files = ROOTS.flatMap(changeLogFiles);
+  const included = new Map<string, string[]>();
+
+  for (const file of files) {
+    const report = (message: string) => problems.push({ file, message });
+    let doc: unknown;
+    try {
+      doc = yaml.load(fs.readFileSync(file, "utf8"));
+    } catch (err) {
+      report(`not valid YAML: ${(err as Error).message.split("\n")[0]}`);
+      continue;
+    }
+    const entries = (doc as { databaseChangeLog?: unknown } | null)?.databaseChangeLog;
+    if (!Array.isArray(entries)) {
+      report("no databaseChangeLog list at the top level");
+      continue;
+    }
+
+    const seen = new Set<string>();
+    entries.forEach((entry, i) => {
+      const at = `entry ${i + 1}`;
+      const [kind, body] = Object.entries(entry ?? {})[0] ?? [];
+      if (kind === "include") {
+        const target = (body as { file?: unknown })?.file;
+        if (typeof target !== "string") return report(`${at}: include without a file`);
+        const resolved = path.normalize(target);
+        if (!fs.existsSync(resolved)) report(`${at}: included file ${target} does not exist`);
+        included.set(resolved, [...(included.get(resolved) ?? []), file]);
+        return;
+      }
+      if (kind === "property" || kind === "preConditions" || kind === "includeAll") return;
+      if (kind !== "changeSet") return report(`${at}: unknown entry '${kind ?? ""}'`);
+
+      const { id, author, changes } = (body ?? {}) as { id?: unknown; author?: unknown; changes?: unknown };
+      const named = `changeSet ${String(id ?? `#${i + 1}`)}`;
+      if (!isScalar(id)) report(`${at}: changeSet without an id`);
+      if (!isScalar(author)) report(`${named}: changeSet without an author`);
+      if (!Array.isArray(changes) || !changes.length) report(`${named}: changeSet without changes`);
+      else if (changes.some(c => !isSingleKeyMapping(c))) report(`${named}: every change must be a single '<type>:' mapping`);
+
+      // Liquibase identifies a changeSet by id, author and changelog path
+      const key = `${String(id)}::${String(author)}::${path.normalize(file)}`;
+      if (seen.has(key)) report(`${named}: duplicate id/author '${String(id)}' / '${String(author)}'`);
+      seen.add(key);
+    });
+  }
+
+  // The same file included twice would have its changeSets run under one identity
+  for (const [file, by] of included) {
+    if (by.length > 1) problems.push({ file, message: `included ${by.length} times, by ${by.join(", ")}` });
+  }
+
+  if (problems.length) {
+    problems.forEach(p => error(`${p.file}: ${p.message}`));
+    error(`${problems.length} problems in ${files.length} changelogs`);
+    process.exitCode = 1;
+    return;
+  }
+  log(`${files.length} changelogs OK`);
+};
+
+const isScalar = (v: unknown) => (typeof v === "string" && v.trim() !== "") || typeof v === "number";
+
+const isSingleKeyMapping = (v: unknown) =>
+  typeof v === "object" && v !== null && !Array.isArray(v) && Object.keys(v).length === 1;
+
+// YAML changelogs below a directory, in a stable order
+const changeLogFiles = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs
+        .readdirSync(dir, { withFileTypes: true })
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .flatMap(e =>
+          e.isDirectory()
+            ? changeLogFiles(path.join(dir, e.name))
+            : /\.ya?ml$/.test(e.name) && !DATA_FILES.has(e.name)
+            ? [path.join(dir, e.name)]
+            : []
+        )
+    : [];
+
+init();
@@ -0,0 +1,752 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { sameValue, type PgText } from "./codec.js";
+import {
+  emptyModel,
+  memorySource,
+  qualify,
+  splitName,
+  type Column,
+  type FK,
+  type MemoryTable,
+  type Model,
+  type Row,
+  type Source,
+  type TableConstraint,
+} from "./source.js";
+
+/*
+ * Sides of a diff read from files instead of a database:
+ *  - a Liquibase changelog such as a diff directory's snapshot.yaml, with
+ *    its includes; the changes the diff writes can be replayed
+ *  - a diff directory, read through its snapshot.yaml, or with its master
+ *    changelog replayed on top (appliedSource)
+ *  - a fixtures directory: per table a <schema>.<table>.yaml describing it
+ *    and/or a <schema>.<table>.csv with its rows
+ * Names without a schema belong to the first configured schema.
+ */
+
+/* ───────────── YAML ───────────── */
+// Scalars stay strings so numbers keep every digit; only null and booleans are typed
+const VALUES_SCHEMA = yaml.FAILSAFE_SCHEMA.extend({
+  implicit: [
+    new yaml.Type("tag:yaml.org,2002:null", {
+      kind: "scalar",
+      resolve: (d: string | null) => d === null || /^(~|null|Null|NULL)?$/.test(d),
+      construct: () => null,
+    }),
+    new yaml.Type("tag:yaml.org,2002:bool", {
+      kind: "scalar",
+      resolve: (d: string | null) => d !== null && /^(true|True|TRUE|false|False|FALSE)$/.test(d),
+      construct: (d: string) => /^t/i.test(d),
+    }),
+  ],
+});
+
+const readYaml = (file: string): unknown => {
+  try {
+    return yaml.load(fs.readFileSync(file, "utf8"), { schema: VALUES_SCHEMA, filename: file });
+  } catch (err) {
+    throw new Error(`${file} is not valid YAML: ${(err as Error).message.split("\n")[0]}`);
+  }
+};
+
+const list = <T>(v: T[] | null | undefined): T[] => (Array.isArray(v) ? v : []);
+const names = (v: unknown): string[] =>
+  Array.isArray(v) ? v.map(String) : typeof v === "string" ? v.split(",").map(s => s.trim()).filter(Boolean) : [];
+
+/* ───────────── CHANGELOG YAML ───────────── */
+// Scalars as VALUES_SCHEMA reads them
+type Scalar = string | boolean | null;
+
+type DefaultValue = {
+  defaultValue?: Scalar;
+  defaultValueNumeric?: Scalar;
+  defaultValueBoolean?: Scalar;
+  defaultValueDate?: Scalar;
+  defaultValueComputed?: Scalar;
+};
+
+// Column of createTable, addColumn, insert, update, createIndex or dropColumn
+export type ChangeColumn = DefaultValue & {
+  name?: Scalar;
+  type?: Scalar;
+  value?: Scalar;
+  valueNumeric?: Scalar;
+  valueBoolean?: Scalar;
+  valueDate?: Scalar;
+  valueComputed?: Scalar;
+  valueBlobFile?: Scalar;
+  autoIncrement?: Scalar;
+  generationType?: Scalar;
+  startWith?: Scalar;
+  incrementBy?: Scalar;
+  descending?: Scalar;
+  remarks?: Scalar;
+  constraints?: { nullable?: Scalar; primaryKey?: Scalar; unique?: Scalar; uniqueConstraintName?: Scalar } | null;
+};
+
+// Attributes of a change, e.g. of `- insert:`; only the ones replayed are typed
+export type Change = DefaultValue & {
+  schemaName?: Scalar;
+  tableName?: Scalar;
+  columns?: ({ column?: ChangeColumn | null } | null)[];
+  columnName?: Scalar;
+  columnNames?: Scalar;
+  newDataType?: Scalar;
+  defaultNullValue?: Scalar;
+  constraintName?: Scalar;
+  baseTableSchemaName?: Scalar;
+  baseTableName?: Scalar;
+  baseColumnNames?: Scalar;
+  referencedTableSchemaName?: Scalar;
+  referencedTableName?: Scalar;
+  referencedColumnNames?: Scalar;
+  onUpdate?: Scalar;
+  onDelete?: Scalar;
+  deferrable?: Scalar;
+  initiallyDeferred?: Scalar;
+  indexName?: Scalar;
+  unique?: Scalar;
+  where?: Scalar;
+  sql?: Scalar;
+};
+
+// `- <change type>: <attributes>` items of a changeSet's changes or rollback
+export type Changes = (Record<string, Change | null> | null)[];
+
+export type ChangeSet = { id?: Scalar; author?: Scalar; changes?: Changes; rollback?: Changes | Scalar };
+
+export type ChangeLogDoc = {
+  databaseChangeLog?: (Record<string, unknown> & {
+    changeSet?: ChangeSet | null;
+    include?: { file?: Scalar; relativeToChangelogFile?: Scalar } | null;
+  } | null)[];
+};
+
+// Not checked beyond being YAML; readers test what they use
+export const readChangeLog = (file: string) => readYaml(file) as ChangeLogDoc | null;
+
+/* ───────────── VALUES ───────────── */
+// format_type() spelling of a Liquibase or Postgres type name
+const TYPE_NAMES: [RegExp, string][] = [
+  [/^int8$/, "bigint"],
+  [/^(int|int4)$/, "integer"],
+  [/^int2$/, "smallint"],
+  [/^bool$/, "boolean"],
+  [/^varchar\b/, "character varying"],
+  [/^(char|bpchar)\b/, "character"],
+  [/^decimal\b/, "numeric"],
+  [/^(float8|double)$/, "double precision"],
+  [/^float4$/, "real"],
+  [/^timestamptz$/, "timestamp with time zone"],
+  [/^timestamp(\(\d\))?$/, "timestamp$1 without time zone"],
+  [/^timetz$/, "time with time zone"],
+  [/^time(\(\d\))?$/, "time$1 without time zone"],
+];
+
+export const pgType = (type: string) => {
+  const t = type.trim().toLowerCase().replace(/\s+/g, " ").replace(/\s*([(),])\s*/g, "$1");
+  const array = t.endsWith("[]") ? "[]" : "";
+  const base = t.slice(0, t.length - array.length);
+  const [pattern, name] = TYPE_NAMES.find(([p]) => p.test(base)) ?? [];
+  return `${pattern ? base.replace(pattern, name!) : base}${array}`;
+};
+
+// A value as Postgres prints it for a column of the type
+const textOf = (type: string, v: unknown): PgText => {
+  if (v === null || v === undefined) return null;
+  if (type === "boolean") return v === true || /^(t|true|y|yes|on|1)$/i.test(String(v)) ? "t" : "f";
+  if (typeof v === "object") return JSON.stringify(v);
+  return /^timestamp/.test(type) ? String(v).replace("T", " ") : String(v);
+};
+
+const quotedLiteral = /^'((?:[^']|'')*)'(?:::.+)?$/s;
+
+// Column default as pg_get_expr() renders it
+const defaultOf = (c: DefaultValue, type: string): string | null => {
+  if (c.defaultValueComputed != null) return String(c.defaultValueComputed);
+  if (c.defaultValueNumeric != null) return String(c.defaultValueNumeric);
+  if (c.defaultValueBoolean != null) return String(c.defaultValueBoolean);
+  const text = c.defaultValue ?? c.defaultValueDate;
+  return text == null ? null : `'${String(text).replace(/'/g, "''")}'::${type.replace(/\(.*\)/, "")}`;
+};
+
+// Value of a column a row leaves out: a literal default or nothing
+const literalDefault = (c: Column): PgText => {
+  const d = c.column_default;
+  if (d === null) return null;
+  const m = quotedLiteral.exec(d);
+  if (m) return textOf(c.data_type, m[1]!.replace(/''/g, "'"));
+  return /^(-?\d+(\.\d+)?|true|false)$/.test(d) ? textOf(c.data_type, d) : null;
+};
+
+// Value of an insert or update change's column; valueBlobFile is relative to
+// the changelog and business key lookups are run against the model
+const changeValue = (model: Model, c: ChangeColumn, type: string, dir: string, at: string): PgText => {
+  if (c.valueBlobFile != null) return `\\x${fs.readFileSync(path.resolve(dir, String(c.valueBlobFile))).toString("hex")}`;
+  if (c.valueComputed != null) {
+    const sql = String(c.valueComputed);
+    const m = quotedLiteral.exec(sql);
+    if (m) return textOf(type, m[1]!.replace(/''/g, "'"));
+    return sql.startsWith("(SELECT ") ? operandValue(model, parseSql(sql, at, p => p.operand()), at) : sql;
+  }
+  return textOf(type, c.valueNumeric ?? c.valueBoolean ?? c.valueDate ?? c.value ?? null);
+};
+
+/* ───────────── WHERE CLAUSES ───────────── */
+// Conditions as the diff writes them: `"c" IS NULL`, `"c"::text = '…'` for
+// json and `"c" = <literal or (SELECT "p" FROM "s"."t" WHERE …)>`, joined by AND
+export type Operand = { literal: PgText } | { lookup: { column: string; table: string; where: Condition[] } };
+type Condition = { column: string; text: boolean; value: Operand | null }; // null: IS NULL
+
+const unquote = (name: string) => name.replace(/""/g, '"');
+
+type SqlParser = {
+  conditions: () => Condition[];
+  operand: () => Operand;
+  operands: () => { operand: Operand; sql: string }[]; // comma-separated, with the SQL of each
+};
+
+function parseSql<T>(sql: string, at: string, parse: (p: SqlParser) => T): T {
+  let i = 0;
+  const fail = (): never => {
+    throw new Error(`${at}: cannot evaluate '${sql}' offline`);
+  };
+  const take = (re: RegExp) => {
+    re.lastIndex = i;
+    const m = re.exec(sql);
+    if (m) i = re.lastIndex;
+    return m;
+  };
+  const operand = (): Operand => {
+    const lookup = take(/\(SELECT "((?:[^"]|"")+)" FROM "((?:[^"]|"")+)"\."((?:[^"]|"")+)" WHERE /y);
+    if (lookup) {
+      const where = conditions();
+      if (!take(/\)/y)) fail();
+      return { lookup: { column: unquote(lookup[1]!), table: qualify(unquote(lookup[2]!), unquote(lookup[3]!)), where } };
+    }
+    const text = take(/'((?:[^']|'')*)'(?:::[a-z][a-z0-9_]*(?: [a-z][a-z0-9_]*)*(?:\([\d,]+\))?(?: [a-z]+)*(?:\[\])*)?/y);
+    if (text) return { literal: text[1]!.replace(/''/g, "'") };
+    const bool = take(/(TRUE|FALSE)\b/y);
+    if (bool) return { literal: bool[1] === "TRUE" ? "t" : "f" };
+    if (take(/NULL\b/y)) return { literal: null };
+    return { literal: (take(/-?\d+(\.\d+)?(e[+-]?\d+)?/iy) ?? fail())[0] };
+  };
+  const condition = (): Condition => {
+    const column = unquote((take(/"((?:[^"]|"")+)"/y) ?? fail())[1]!);
+    if (take(/ IS NULL/y)) return { column, text: false, value: null };
+    const text = !!take(/::text/y);
+    if (!take(/ = /y)) fail();
+    return { column, text, value: operand() };
+  };
+  const conditions = () => {
+    const out = [condition()];
+    while (take(/ AND /y)) out.push(condition());
+    return out;
+  };
+  const spanned = () => {
+    const from = i;
+    return { operand: operand(), sql: sql.slice(from, i) };
+  };
+  const operands = () => {
+    const out = [spanned()];
+    while (take(/, /y)) out.push(spanned());
+    return out;
+  };
+  const result = parse({ conditions, operand, operands });
+  if (i !== sql.length) fail();
+  return result;
+}
+
+const parseWhere = (where: string, at: string) => parseSql(where, at, p => p.conditions());
+
+// The parent row a business key lookup points at, when its key values are
+// literals: `(SELECT "id" FROM "public"."t" WHERE "code" = 'X')` gives
+// public.t with { code: "X" }
+export function lookupOf(sql: string): { table: string; column: string; key: Record<string, PgText> } | null {
+  if (!sql.startsWith("(SELECT ")) return null;
+  try {
+    const o = parseSql(sql, sql, p => p.operand());
+    if (!("lookup" in o)) return null;
+    const key: Record<string, PgText> = {};
+    for (const c of o.lookup.where) {
+      if (c.value !== null && !("literal" in c.value)) return null;
+      key[c.column] = c.value?.literal ?? null;
+    }
+    return { table: o.lookup.table, column: o.lookup.column, key };
+  } catch {
+    return null;
+  }
+}
+
+// A row inserted with OVERRIDING SYSTEM VALUE, as the diff writes rows giving
+// GENERATED ALWAYS identity columns a value: its table and its columns' values
+export function overridingInsertOf(
+  sql: string,
+  at: string
+): { table: string; columns: { column: string; operand: Operand; sql: string }[] } | null {
+  const name = `"((?:[^"]|"")+)"\\."((?:[^"]|"")+)"`;
+  const insert = new RegExp(`^INSERT INTO ${name} \\(((?:"(?:[^"]|"")+"(?:, )?)+)\\) OVERRIDING SYSTEM VALUE VALUES \\((.+)\\)$`, "s");
+  const m = insert.exec(sql.trim().replace(/;$/, ""));
+  if (!m) return null;
+  const columns = [...m[3]!.matchAll(/"((?:[^"]|"")+)"/g)].map(c => unquote(c[1]!));
+  const values = parseSql(m[4]!, at, p => p.operands());
+  if (values.length !== columns.length) throw new Error(`${at}: ${columns.length} columns but ${values.length} values`);
+  return { table: qualify(unquote(m[1]!), unquote(m[2]!)), columns: columns.map((column, i) => ({ column, ...values[i]! })) };
+}
+
+// A scalar subquery: NULL without a matching row
+function operandValue(model: Model, o: Operand, at: string): PgText {
+  if ("literal" in o) return o.literal;
+  const { column, table, where } = o.lookup;
+  const t = tableOf(model, table, at);
+  const found = t.rows.filter(r => rowMatches(model, t, r, where, at));
+  if (found.length > 1) throw new Error(`${at}: lookup in ${table} matches ${found.length} rows`);
+  return found[0]?.[columnOf(t, column, table, at).column_name] ?? null;
+}
+
+function rowMatches(model: Model, t: MemoryTable, row: Row, where: Condition[], at: string): boolean {
+  return where.every(c => {
+    const v = row[c.column] ?? null;
+    if (c.value === null) return v === null;
+    const expected = operandValue(model, c.value, at);
+    if (v === null || expected === null) return false;
+    return c.text ? v === expected : sameValue(t.columns.find(k => k.column_name === c.column)?.data_type ?? "text", v, expected);
+  });
+}
+
+/* ───────────── MODEL ───────────── */
+const identifier = (name: string) => (/^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`);
+
+// pg_get_indexdef() of a plain btree index
+const indexDefinition = (name: string, table: string, unique: boolean, columns: string[]) => {
+  const { schema, table: bare } = splitName(table);
+  return `CREATE ${unique ? "UNIQUE " : ""}INDEX ${identifier(name)} ON ${identifier(schema)}.${identifier(bare)} USING btree (${columns.map(identifier).join(", ")})`;
+};
+
+const uniqueConstraint = (name: string, table: string, columns: string[]): TableConstraint => ({
+  name,
+  table,
+  columns,
+  definition: `UNIQUE (${columns.map(identifier).join(", ")})`,
+});
+
+const column = (
+  table: string,
+  name: string,
+  type: string,
+  nullable: boolean,
+  columnDefault: string | null,
+  identity: Column["identity"] = "",
+  start = "1",
+  increment = "1"
+): Column => ({
+  column_name: name,
+  data_type: type,
+  is_nullable: nullable ? "YES" : "NO",
+  column_default: identity ? null : columnDefault,
+  identity,
+  sequence: identity ? `${splitName(table).table}_${name}_seq` : null,
+  seq_type: identity ? type : null,
+  seq_start: identity ? start : null,
+  seq_increment: identity ? increment : null,
+  remarks: null,
+});
+
+const tableOf = (model: Model, name: string, at: string): MemoryTable => {
+  const t = model.tables.get(name);
+  if (!t) throw new Error(`${at}: table ${name} does not exist`);
+  return t;
+};
+
+const columnOf = (t: MemoryTable, name: string, table: string, at: string): Column => {
+  const c = t.columns.find(c => c.column_name === name);
+  if (!c) throw new Error(`${at}: table ${table} has no column ${name}`);
+  return c;
+};
+
+// Adds a row; left-out identity columns take the next value, others their default
+function insertRow(t: MemoryTable, table: string, values: Map<string, PgText>, at: string) {
+  const unknown = [...values.keys()].find(c => !t.columns.some(k => k.column_name === c));
+  if (unknown) throw new Error(`${at}: table ${table} has no column ${unknown}`);
+  const next = (c: Column) =>
+    String(t.rows.reduce((max, r) => (r[c.column_name] != null && BigInt(r[c.column_name]!) > max ? BigInt(r[c.column_name]!) : max), BigInt(c.seq_start ?? "1") - 1n) + 1n);
+  t.rows.push(Object.fromEntries(t.columns.map(c => [
+    c.column_name,
+    values.has(c.column_name) ? values.get(c.column_name)! : c.identity ? next(c) : literalDefault(c),
+  ])));
+}
+
+// Removes a table's column along with the indexes and constraints using it
+function dropColumn(model: Model, table: string, name: string, at: string) {
+  const t = tableOf(model, table, at);
+  columnOf(t, name, table, at);
+  t.columns = t.columns.filter(c => c.column_name !== name);
+  t.rows.forEach(r => delete r[name]);
+  const uses = (o: { table: string; columns: string[] }) => o.table === table && o.columns.includes(name);
+  model.indexes = model.indexes.filter(i => !uses(i));
+  model.uniques = model.uniques.filter(u => !uses(u));
+  model.fks = model.fks.filter(f => !(f.child === table && f.childCols.includes(name)));
+}
+
+/* ───────────── CHANGELOGS ───────────── */
+// Liquibase column definition of createTable / addColumn
+const changeLogColumn = (table: string, c: ChangeColumn): Column => {
+  const type = pgType(String(c.type));
+  const identity = c.autoIncrement === true ? (c.generationType === "ALWAYS" ? "a" : "d") : "";
+  const nullable = c.constraints?.nullable !== false && c.constraints?.primaryKey !== true;
+  return {
+    ...column(table, String(c.name), type, nullable, defaultOf(c, type), identity, String(c.startWith ?? "1"), String(c.incrementBy ?? "1")),
+    remarks: c.remarks == null ? null : String(c.remarks),
+  };
+};
+
+function applyChange(model: Model, type: string, a: Change, at: string, dir: string, schema: string) {
+  const table = a.tableName == null ? "" : qualify(String(a.schemaName ?? schema), String(a.tableName));
+  const columns = list(a.columns).map(e => e?.column ?? {});
+  switch (type) {
+    case "createTable": {
+      model.schemas.add(splitName(table).schema);
+      model.tables.set(table, { columns: columns.map(c => changeLogColumn(table, c)), rows: [] });
+      const pk = columns.filter(c => c.constraints?.primaryKey === true).map(c => String(c.name));
+      if (pk.length) model.pks.set(table, pk);
+      columns
+        .filter(c => c.constraints?.unique === true)
+        .forEach(c => model.uniques.push(uniqueConstraint(String(c.constraints?.uniqueConstraintName ?? `${a.tableName}_${c.name}_key`), table, [String(c.name)])));
+      return;
+    }
+    case "dropTable":
+      tableOf(model, table, at);
+      model.tables.delete(table);
+      model.pks.delete(table);
+      model.fks = model.fks.filter(f => f.child !== table && f.parent !== table);
+      model.indexes = model.indexes.filter(i => i.table !== table);
+      model.uniques = model.uniques.filter(u => u.table !== table);
+      model.checks = model.checks.filter(k => k.table !== table);
+      return;
+    case "addColumn": {
+      const t = tableOf(model, table, at);
+      for (const c of columns.map(c => changeLogColumn(table, c))) {
+        t.columns.push(c);
+        t.rows.forEach(r => (r[c.column_name] = literalDefault(c)));
+      }
+      return;
+    }
+    case "dropColumn":
+      (a.columnName != null ? [String(a.columnName)] : columns.map(c => String(c.name))).forEach(c => dropColumn(model, table, c, at));
+      return;
+    case "addPrimaryKey": {
+      const t = tableOf(model, table, at);
+      const pk = names(a.columnNames);
+      pk.forEach(c => (columnOf(t, c, table, at).is_nullable = "NO"));
+      model.pks.set(table, pk);
+      return;
+    }
+    case "addNotNullConstraint": {
+      const t = tableOf(model, table, at);
+      const c = columnOf(t, String(a.columnName), table, at);
+      c.is_nullable = "NO";
+      if (a.defaultNullValue != null)
+        t.rows.filter(r => r[c.column_name] === null).forEach(r => (r[c.column_name] = textOf(c.data_type, a.defaultNullValue)));
+      return;
+    }
+    case "dropNotNullConstraint":
+      columnOf(tableOf(model, table, at), String(a.columnName), table, at).is_nullable = "YES";
+      return;
+    case "addDefaultValue": {
+      const c = columnOf(tableOf(model, table, at), String(a.columnName), table, at);
+      c.column_default = defaultOf(a, c.data_type);
+      return;
+    }
+    case "dropDefaultValue":
+      columnOf(tableOf(model, table, at), String(a.columnName), table, at).column_default = null;
+      return;
+    case "modifyDataType":
+      columnOf(tableOf(model, table, at), String(a.columnName), table, at).data_type = pgType(String(a.newDataType));
+      return;
+    case "addForeignKeyConstraint": {
+      const child = qualify(String(a.baseTableSchemaName ?? schema), String(a.baseTableName));
+      const fk: FK = {
+        name: String(a.constraintName),
+        child,
+        parent: qualify(String(a.referencedTableSchemaName ?? schema), String(a.referencedTableName)),
+        childCols: names(a.baseColumnNames),
+        parentCols: names(a.referencedColumnNames),
+        onUpdate: a.onUpdate == null ? "NO ACTION" : String(a.onUpdate),
+        onDelete: a.onDelete == null ? "NO ACTION" : String(a.onDelete),
+        deferrable: a.deferrable === true,
+        initiallyDeferred: a.initiallyDeferred === true,
+      };
+      tableOf(model, child, at);
+      model.fks = [...model.fks.filter(f => !(f.child === child && f.name === fk.name)), fk];
+      return;
+    }
+    case "dropForeignKeyConstraint": {
+      const child = qualify(String(a.baseTableSchemaName ?? schema), String(a.baseTableName));
+      model.fks = model.fks.filter(f => !(f.child === child && f.name === String(a.constraintName)));
+      return;
+    }
+    case "createIndex": {
+      tableOf(model, table, at);
+      const cols = columns.map(c => String(c.name));
+      const unique = a.unique === true;
+      const descending = columns.some(c => c.descending === true);
+      const definition = descending
+        ? indexDefinition(String(a.indexName), table, unique, cols).replace(
+            /\(([^()]*)\)$/,
+            `(${columns.map(c => `${identifier(String(c.name))}${c.descending === true ? " DESC" : ""}`).join(", ")})`
+          )
+        : indexDefinition(String(a.indexName), table, unique, cols);
+      model.indexes.push({ name: String(a.indexName), table, unique, columns: cols, definition, custom: descending });
+      return;
+    }
+    case "dropIndex":
+      model.indexes = model.indexes.filter(i => !(i.name === String(a.indexName) && (!table || i.table === table)));
+      return;
+    case "addUniqueConstraint":
+      tableOf(model, table, at);
+      model.uniques.push(uniqueConstraint(String(a.constraintName), table, names(a.columnNames)));
+      return;
+    case "dropUniqueConstraint":
+      model.uniques = model.uniques.filter(u => !(u.table === table && u.name === String(a.constraintName)));
+      return;
+    case "insert":
+      insertRow(tableOf(model, table, at), table, changeValues(model, table, columns, at, dir), at);
+      return;
+    case "update": {
+      const t = tableOf(model, table, at);
+      const values = changeValues(model, table, columns, at, dir);
+      const where = a.where == null ? [] : parseWhere(String(a.where), at);
+      t.rows.filter(r => rowMatches(model, t, r, where, at)).forEach(r => values.forEach((v, c) => (r[c] = v)));
+      return;
+    }
+    case "delete": {
+      const t = tableOf(model, table, at);
+      const where = a.where == null ? [] : parseWhere(String(a.where), at);
+      t.rows = t.rows.filter(r => !rowMatches(model, t, r, where, at));
+      return;
+    }
+    // Sequences of serial and identity columns come with their columns
+    case "createSequence":
+      return;
+    case "sql": {
+      const sql = String(a.sql).trim().replace(/;$/, "");
+      const name = `"((?:[^"]|"")+)"\\."((?:[^"]|"")+)"`;
+      let m: RegExpExecArray | null;
+      let inserted: ReturnType<typeof overridingInsertOf>;
+      if ((m = /^CREATE SCHEMA (?:IF NOT EXISTS )?"?([^"\s;]+)"?$/i.exec(sql))) model.schemas.add(m[1]!);
+      else if ((m = /^DROP SCHEMA "?([^"\s;]+)"?$/i.exec(sql))) model.schemas.delete(m[1]!);
+      // Sequences are not part of the model
+      else if (/^(ALTER SEQUENCE |SELECT setval\()/i.test(sql)) return;
+      // One of several identical rows, as deleteOneChange writes it
+      else if ((m = new RegExp(`^DELETE FROM ${name} WHERE ctid = \\(SELECT ctid FROM ${name} WHERE (.+) LIMIT 1\\)$`, "s").exec(sql))) {
+        const target = qualify(unquote(m[1]!), unquote(m[2]!));
+        const t = tableOf(model, target, at);
+        const where = parseWhere(m[5]!, at);
+        const i = t.rows.findIndex(r => rowMatches(model, t, r, where, at));
+        if (i >= 0) t.rows.splice(i, 1);
+      } else if ((inserted = overridingInsertOf(sql, at))) {
+        const { table: target, columns } = inserted;
+        insertRow(tableOf(model, target, at), target, new Map(columns.map(c => [c.column, operandValue(model, c.operand, at)])), at);
+      } else if ((m = new RegExp(`^ALTER TABLE ${name} ADD CONSTRAINT "((?:[^"]|"")+)" (CHECK .+)$`, "s").exec(sql))) {
+        const target = qualify(unquote(m[1]!), unquote(m[2]!));
+        tableOf(model, target, at);
+        model.checks.push({ name: unquote(m[3]!), table: target, columns: [], definition: m[4]! });
+      } else if ((m = new RegExp(`^ALTER TABLE ${name} DROP CONSTRAINT "((?:[^"]|"")+)"$`).exec(sql))) {
+        const target = qualify(unquote(m[1]!), unquote(m[2]!));
+        model.checks = model.checks.filter(k => !(k.table === target && k.name === unquote(m![3]!)));
+      } else if ((m = /^CREATE (UNIQUE )?INDEX ("(?:[^"]|"")+"|\S+) ON ("(?:[^"]|"")+"|\S+)\.("(?:[^"]|"")+"|\S+) /.exec(sql))) {
+        // Indexes the diff writes as SQL, kept with their definition
+        const bare = (n: string) => (n.startsWith('"') ? unquote(n.slice(1, -1)) : n);
+        const target = qualify(bare(m[3]!), bare(m[4]!));
+        tableOf(model, target, at);
+        model.indexes.push({ name: bare(m[2]!), table: target, unique: !!m[1], columns: [], definition: sql, custom: true });
+      } else break;
+      return;
+    }
+  }
+  throw new Error(`${at}: '${type}' changes cannot be replayed offline`);
+}
+
+// Columns of an insert or update change by name
+const changeValues = (model: Model, table: string, columns: ChangeColumn[], at: string, dir: string) => {
+  const t = tableOf(model, table, at);
+  return new Map(columns.map(c => {
+    const name = String(c.name);
+    return [name, changeValue(model, c, columnOf(t, name, table, at).data_type, dir, at)] as const;
+  }));
+};
+
+// Replays the changelogs and the changelogs they include, in order
+function changeLogModel(files: string[], schema: string): Model {
+  const model = emptyModel();
+  model.schemas.add(schema);
+  const replay = (file: string) => {
+    const doc = readChangeLog(file);
+    const entries = doc?.databaseChangeLog;
+    if (!Array.isArray(entries)) throw new Error(`${file}: no databaseChangeLog list at the top level`);
+    for (const entry of entries) {
+      const [kind] = Object.keys(entry ?? {});
+      if (kind === "include") {
+        const target = String(entry?.include?.file);
+        replay(entry?.include?.relativeToChangelogFile === true ? path.join(path.dirname(file), target) : target);
+      } else if (kind === "changeSet") {
+        const at = `${file}: changeSet ${entry?.changeSet?.id}`;
+        for (const change of list(entry?.changeSet?.changes)) {
+          const [type, attrs] = Object.entries(change ?? {})[0] ?? [];
+          applyChange(model, String(type), attrs ?? {}, at, path.dirname(file), schema);
+        }
+      } else if (kind !== "property" && kind !== "preConditions") {
+        throw new Error(`${file}: '${kind}' entries cannot be replayed offline`);
+      }
+    }
+  };
+  files.forEach(replay);
+  return model;
+}
+
+/* ───────────── FIXTURES ───────────── */
+// RFC 4180 records; as with COPY ... CSV an empty unquoted field is NULL
+function parseCsv(text: string, file: string): PgText[][] {
+  const records: PgText[][] = [];
+  let record: PgText[] = [];
+  let field = "";
+  let quoted = false; // the field started with a quote
+  let inQuotes = false;
+  const endField = () => {
+    record.push(quoted || field !== "" ? field : null);
+    [field, quoted] = ["", false];
+  };
+  const endRecord = () => {
+    endField();
+    if (record.length > 1 || record[0] !== null) records.push(record);
+    record = [];
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (inQuotes) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') field += text[++i];
+      else inQuotes = false;
+    } else if (ch === '"' && field === "" && !quoted) quoted = inQuotes = true;
+    else if (ch === ",") endField();
+    else if (ch === "\n") endRecord();
+    else if (ch !== "\r") field += ch;
+  }
+  if (inQuotes) throw new Error(`${file}: unterminated quoted field`);
+  if (field !== "" || quoted || record.length) endRecord();
+  return records;
+}
+
+type FixtureSpec = {
+  columns?: (string | { name?: Scalar; type?: Scalar; nullable?: Scalar; default?: Scalar; identity?: Scalar })[];
+  primaryKey?: Scalar | Scalar[];
+  foreignKeys?: {
+    name?: Scalar;
+    columns?: Scalar | Scalar[];
+    references?: Scalar;
+    referencedColumns?: Scalar | Scalar[];
+    onUpdate?: Scalar;
+    onDelete?: Scalar;
+    deferrable?: Scalar;
+    initiallyDeferred?: Scalar;
+  }[];
+  indexes?: { name?: Scalar; columns?: Scalar | Scalar[]; unique?: Scalar }[];
+  uniqueConstraints?: { name?: Scalar; columns?: Scalar | Scalar[] }[];
+  checkConstraints?: { name?: Scalar; columns?: Scalar | Scalar[]; definition?: Scalar }[];
+  rows?: (Record<string, unknown> | null)[];
+};
+
+const FIXTURE_KEYS = ["columns", "primaryKey", "foreignKeys", "indexes", "uniqueConstraints", "checkConstraints", "rows"];
+
+/**
+ * One table per <schema>.<table>.yaml and/or .csv. The YAML holds
+ * `columns` (name, type, nullable, default, identity: always | by default,
+ * or just a name for a nullable text column), `primaryKey`, `foreignKeys`
+ * (name, columns, references, referencedColumns, onUpdate, onDelete),
+ * `indexes` (name, columns, unique), `uniqueConstraints` (name, columns),
+ * `checkConstraints` (name, definition) and `rows`. The CSV's header names
+ * the columns of its rows; without a YAML they are nullable text columns.
+ */
+function fixtureModel(dir: string, schema: string): Model {
+  const model = emptyModel();
+  model.schemas.add(schema);
+  const bases = [...new Set(fs.readdirSync(dir).filter(f => /\.(ya?ml|csv)$/.test(f)).map(f => f.replace(/\.(ya?ml|csv)$/, "")))].sort();
+  const tables = new Map(bases.map(base => [base, base.includes(".") ? base : qualify(schema, base)]));
+
+  for (const [base, table] of tables) {
+    const file = ["yaml", "yml"].map(e => path.join(dir, `${base}.${e}`)).find(f => fs.existsSync(f));
+    const csvFile = path.join(dir, `${base}.csv`);
+    const spec: FixtureSpec = (file ? (readYaml(file) as FixtureSpec | null) : null) ?? {};
+    const at = file ?? csvFile;
+    const unknown = Object.keys(spec).find(k => !FIXTURE_KEYS.includes(k));
+    if (unknown) throw new Error(`${at}: unknown key '${unknown}', expected one of ${FIXTURE_KEYS.join(", ")}`);
+    const csv = fs.existsSync(csvFile) ? parseCsv(fs.readFileSync(csvFile, "utf8"), csvFile) : null;
+    const header = (csv?.[0] ?? []).map(h => h ?? "");
+
+    const pk = names(spec.primaryKey);
+    const columns = (spec.columns ? list(spec.columns) : header).map(c => {
+      if (typeof c === "string") return column(table, c, "text", !pk.includes(c), null);
+      const type = pgType(String(c.type ?? "text"));
+      const identity = c.identity === "always" ? "a" : c.identity === "by default" ? "d" : "";
+      return column(table, String(c.name), type, c.nullable !== false && !pk.includes(String(c.name)), c.default == null ? null : String(c.default), identity);
+    });
+    const t: MemoryTable = { columns, rows: [] };
+    model.schemas.add(splitName(table).schema);
+    model.tables.set(table, t);
+    if (pk.length) model.pks.set(table, pk);
+
+    const typeOf = (c: string) => columnOf(t, c, table, at).data_type;
+    list(spec.rows).forEach((row, i) =>
+      insertRow(t, table, new Map(Object.entries(row ?? {}).map(([c, v]) => [c, textOf(typeOf(c), v)])), `${at}: row ${i + 1}`)
+    );
+    csv?.slice(1).forEach((record, i) =>
+      insertRow(t, table, new Map(header.map((c, j) => [c, textOf(typeOf(c), record[j] ?? null)])), `${csvFile}: line ${i + 2}`)
+    );
+
+    for (const f of list(spec.foreignKeys)) {
+      const parent = String(f.references);
+      model.fks.push({
+        name: String(f.name),
+        child: table,
+        parent: tables.get(parent) ?? (parent.includes(".") ? parent : qualify(schema, parent)),
+        childCols: names(f.columns),
+        parentCols: names(f.referencedColumns ?? f.columns),
+        onUpdate: f.onUpdate == null ? "NO ACTION" : String(f.onUpdate),
+        onDelete: f.onDelete == null ? "NO ACTION" : String(f.onDelete),
+        deferrable: f.deferrable === true,
+        initiallyDeferred: f.initiallyDeferred === true,
+      });
+    }
+    for (const i of list(spec.indexes)) {
+      const cols = names(i.columns);
+      model.indexes.push({ name: String(i.name), table, unique: i.unique === true, columns: cols, definition: indexDefinition(String(i.name), table, i.unique === true, cols), custom: false });
+    }
+    list(spec.uniqueConstraints).forEach(u => model.uniques.push(uniqueConstraint(String(u.name), table, names(u.columns))));
+    list(spec.checkConstraints).forEach(k => model.checks.push({ name: String(k.name), table, columns: names(k.columns), definition: String(k.definition) }));
+  }
+  return model;
+}
+
+/* ───────────── SOURCES ───────────── */
+// A changelog file, a diff directory with a snapshot.yaml or a fixtures directory
+export function offlineSource(spec: string, schemas: string[]): Source {
+  const schema = schemas[0]!;
+  if (!fs.existsSync(spec)) throw new Error(`${spec} does not exist`);
+  if (!fs.statSync(spec).isDirectory()) return memorySource(changeLogModel([spec], schema), `changelog ${spec}`, schemas);
+  const snapshot = path.join(spec, "snapshot.yaml");
+  return fs.existsSync(snapshot)
+    ? memorySource(changeLogModel([snapshot], schema), `snapshot ${snapshot}`, schemas)
+    : memorySource(fixtureModel(spec, schema), `fixtures ${spec}`, schemas);
+}
+
+// The target as a diff directory leaves it: its snapshot.yaml with its master
+// changelog replayed on top, in memory; a live diff uses a scratch database
+export function appliedSource(dir: string, schemas: string[]): Source {
+  const [snapshot, master] = ["snapshot.yaml", "master-changelog.yaml"].map(f => path.join(dir, f));
+  const missing = [snapshot!, master!].find(f => !fs.existsSync(f));
+  if (missing) throw new Error(`${missing} does not exist`);
+  return memorySource(changeLogModel([snapshot!, master!], schemas[0]!), `${dir} applied`, schemas);
+}
@@ -0,0 +1,205 @@
+import fs from "fs";
+import path from "path";
+import type { PgText } from "./codec.js";
+import type { Finding } from "./rules.js";
+
+/* ───────────── TYPES ───────────── */
+export type ColumnChange = { column: string; before: PgText; after: PgText };
+export type RowUpdate = { key: string; columns: ColumnChange[] };
+
+export type HashSummary = { rows: number; hash: string | null };
+
+// Hash pre-check of a table present on both sides
+export type TableHash = {
+  reference: HashSummary;
+  target: HashSummary;
+  buckets: number; // key ranges hashed separately once the table hashes differ
+  mismatchedBuckets: number; // key ranges compared row by row
+};
+
+export type TableReport = {
+  table: string;
+  status: "new" | "dropped" | "existing";
+  schemaChanges: number; // column, index and constraint changeSets
+  inserts: number;
+  updates: number;
+  deletes: number;
+  updated: RowUpdate[]; // a sample of at most REPORT_SAMPLE rows
+  kept: number; // rows only the target changed since the ancestor, left as they are
+  conflicts: number; // rows both sides changed, listed in conflicts.yaml
+  hash?: TableHash;
+};
+
+// FK cycle between existing tables; deferred FKs are set by deferred-<table>.yaml
+export type FkCycle = { tables: string[]; deferred: string[]; resolved: boolean };
+
+export type DiffReport = {
+  diffPath: string;
+  generatedAt: string;
+  ancestor: string | null; // common ancestor of the row merge; none when merged two-way
+  promotion: { from: string; to: string } | null; // environments of `promote`
+  tables: TableReport[];
+  findings: Finding[]; // business rules broken by promoted rows
+  cycles: FkCycle[];
+  blocked: boolean; // rule errors kept master-changelog.yaml from being written
+};
+
+/* ───────────── HELPERS ───────────── */
+export const emptyTableReport = (table: string, status: TableReport["status"]): TableReport => ({
+  table,
+  status,
+  schemaChanges: 0,
+  inserts: 0,
+  updates: 0,
+  deletes: 0,
+  updated: [],
+  kept: 0,
+  conflicts: 0,
+});
+
+// Tables the diff writes changeSets for; conflicts only once resolved
+export const changed = (t: TableReport) =>
+  t.status !== "existing" || t.schemaChanges + t.inserts + t.updates + t.deletes > 0;
+
+// Table cells: one line, pipes escaped, long values shortened
+const cell = (v: unknown) => {
+  if (v === null || v === undefined) return "_null_";
+  const s = (v instanceof Date ? v.toISOString() : typeof v === "object" ? JSON.stringify(v) : String(v))
+    .replace(/\r?\n/g, " ")
+    .replace(/\|/g, "\\|");
+  return `\`${s.length > 80 ? `${s.slice(0, 77)}...` : s}\``;
+};
+
+/* ───────────── MARKDOWN ───────────── */
+const FINDINGS_SHOWN = 100;
+
+export function renderMarkdown(report: DiffReport): string {
+  const tables = report.tables.filter(t => changed(t) || t.conflicts);
+  const conflicts = report.tables.reduce((n, t) => n + (t.conflicts ?? 0), 0);
+  const out = [
+    `# PLM catalogue changes – ${report.diffPath}`,
+    "",
+    "AUTO GENERATED PR: changes between the design time (reference) and runtime (target) catalogue.",
+    ...(report.promotion
+      ? ["", `Promotion from ${report.promotion.from} to ${report.promotion.to}: ${report.promotion.from} is the reference.`]
+      : []),
+    ...(report.ancestor
+      ? ["", `Rows merged against ${report.ancestor}: changes made only on the target are kept.`]
+      : []),
+    ...(conflicts
+      ? ["", `**${conflicts} rows changed on both sides.** Resolve them in conflicts.yaml and run \`npm run resolve\`; sync refuses this directory until then.`]
+      : []),
+    "",
+    "| Table | Status | Inserts | Updates | Deletes | Schema changes | Kept on target | Conflicts |",
+    "|---|---|---:|---:|---:|---:|---:|---:|",
+    ...tables.map(t => `| ${t.table} | ${t.status} | ${t.inserts} | ${t.updates} | ${t.deletes} | ${t.schemaChanges} | ${t.kept ?? 0} | ${t.conflicts ?? 0} |`),
+  ];
+
+  const findings = report.findings ?? [];
+  if (findings.length) {
+    const errors = findings.filter(f => f.severity === "error").length;
+    out.push(
+      "",
+      "## Business rules",
+      "",
+      ...(report.blocked
+        ? [`**${errors} business rule errors: master-changelog.yaml was not written.** Fix the reference rows, or generate again with \`--allow-rule-errors\`.`, ""]
+        : errors
+        ? [`**${errors} business rule errors were allowed with \`--allow-rule-errors\`.**`, ""]
+        : []),
+      ...(findings.length > FINDINGS_SHOWN ? [`_First ${FINDINGS_SHOWN} of ${findings.length} findings, see report.json._`, ""] : []),
+      "| Severity | Rule | Table | Rows | Finding |",
+      "|---|---|---|---|---|",
+      ...findings
+        .slice(0, FINDINGS_SHOWN)
+        .map(f => `| ${f.severity} | ${f.rule} | ${f.table} | ${f.keys.map(cell).join(", ")} | ${f.message.replace(/\|/g, "\\|")} |`)
+    );
+  }
+
+  const cycles = report.cycles ?? [];
+  if (cycles.length) {
+    out.push(
+      "",
+      "## FK cycles",
+      "",
+      "Rows of a cycle are written with the deferred FK columns null; deferred-<table>.yaml sets them once every row is in.",
+      "",
+      "| Tables | Deferred FKs | Resolved |",
+      "|---|---|---|",
+      ...cycles.map(c => `| ${c.tables.join(", ")} | ${c.deferred.join(", ") || "–"} | ${c.resolved ? "yes" : "**no: no nullable FK to defer**"} |`)
+    );
+  }
+
+  for (const t of tables.filter(t => t.updated.length)) {
+    out.push(
+      "",
+      `## ${t.table} – updates`,
+      "",
+      ...(t.updates > t.updated.length ? [`_First ${t.updated.length} of ${t.updates} updated rows._`, ""] : []),
+      "| Key | Column | Before | After |",
+      "|---|---|---|---|",
+      ...t.updated.flatMap(u =>
+        u.columns.map(c => `| ${cell(u.key)} | ${c.column} | ${cell(c.before)} | ${cell(c.after)} |`)
+      )
+    );
+  }
+  const hashed = report.tables.filter(t => t.hash);
+  if (hashed.length) {
+    out.push(
+      "",
+      "## Hash pre-check",
+      "",
+      "| Table | Reference rows | Target rows | Result | Buckets compared |",
+      "|---|---:|---:|---|---:|",
+      ...hashed.map(({ table, hash }) => {
+        const same = hash!.reference.rows === hash!.target.rows && hash!.reference.hash === hash!.target.hash;
+        return `| ${table} | ${hash!.reference.rows} | ${hash!.target.rows} | ${same ? "identical, skipped" : "changed"} | ${same ? "–" : `${hash!.mismatchedBuckets} of ${hash!.buckets}`} |`;
+      })
+    );
+  }
+  return `${out.join("\n")}\n`;
+}
+
+/**
+ * Drift report of a diff from the expected target state (reference) to the
+ * live target: rows the diff would delete were added outside Liquibase, rows
+ * it would insert were removed, and updates undo edits.
+ */
+export function renderDriftMarkdown(report: DiffReport, base: string): string {
+  const tables = report.tables.filter(changed);
+  const state = (t: TableReport) =>
+    t.status === "new" ? "dropped outside Liquibase" : t.status === "dropped" ? "created outside Liquibase" : "changed";
+  const out = [
+    `# Drift on the target – ${report.diffPath}`,
+    "",
+    `Changes made to the target outside Liquibase, against snapshot ${base} plus the changeSets recorded as run since.`,
+    "",
+    "| Table | Drift | Rows added | Rows removed | Rows edited | Schema changes |",
+    "|---|---|---:|---:|---:|---:|",
+    ...tables.map(t => `| ${t.table} | ${state(t)} | ${t.deletes} | ${t.inserts} | ${t.updates} | ${t.schemaChanges} |`),
+  ];
+  for (const t of tables.filter(t => t.updated.length)) {
+    out.push(
+      "",
+      `## ${t.table} – edited rows`,
+      "",
+      ...(t.updates > t.updated.length ? [`_First ${t.updated.length} of ${t.updates} edited rows._`, ""] : []),
+      "| Key | Column | Expected | Actual |",
+      "|---|---|---|---|",
+      ...t.updated.flatMap(u =>
+        u.columns.map(c => `| ${cell(u.key)} | ${c.column} | ${cell(c.after)} | ${cell(c.before)} |`)
+      )
+    );
+  }
+  return `${out.join("\n")}\n`;
+}
+
+/* ───────────── WRITE ───────────── */
+// REPORT.md for humans and the auto-PR body, report.json for tooling
+export function writeReport(outDir: string, report: DiffReport) {
+  fs.writeFileSync(path.join(outDir, "REPORT.md"), renderMarkdown(report));
+  fs.writeFileSync(path.join(outDir, "report.json"), `${JSON.stringify(report, null, 2)}\n`);
+}
+
+export const readReport = (outDir: string): DiffReport =>
+  JSON.parse(fs.readFileSync(path.join(outDir, "report.json"), "utf8"));
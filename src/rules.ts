@@ -0,0 +1,193 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import type { PgText } from "./codec.js";
+import { bareName, CONFIG_FILE, type DiffConfig, type RuleConfig } from "./config.js";
+import { components } from "./graph.js";
+
+/**
+ * Business rules over the reference rows a diff promotes. Declarative rules
+ * come from the config file; custom ones are the modules in rules/ next to
+ * this file, each with a rule or a list of rules as default export. A
+ * violation is reported when it involves at least one inserted or updated
+ * row, so rows the target already holds do not block every later diff.
+ * Rules read the reference a keyset page at a time and look up rows of other
+ * tables by value, so a large table is never held as a whole.
+ */
+
+/* ───────────── TYPES ───────────── */
+export type Severity = "error" | "warning";
+
+// Values as PostgreSQL prints them; "__" keys are the diff's own helpers
+export type RuleRow = Record<string, PgText>;
+
+export type RuleInput = {
+  table: string; // "schema.table"
+  types: Map<string, string>; // data type by column
+  keyOf: (row: RuleRow) => string; // key as the changeSet ids show it
+  // The table's reference rows a page at a time in key order; rows with the
+  // same values of the groupBy columns come one after another
+  pages: (groupBy?: string[]) => AsyncIterable<RuleRow[]>;
+  // Rows of another reference table whose column holds one of the values; none when it does not exist
+  rowsOf: (table: string, column: string, values: PgText[]) => Promise<RuleRow[]>;
+};
+
+// Rows that break a rule together, e.g. two overlapping price periods
+export type Violation = { rows: RuleRow[]; message: string };
+
+export type Rule = {
+  name: string;
+  table: string; // "schema.table" or bare table name
+  severity: Severity;
+  check: (input: RuleInput) => Violation[] | Promise<Violation[]>;
+};
+
+export type Finding = { rule: string; severity: Severity; table: string; keys: string[]; message: string };
+
+/* ───────────── DECLARATIVE RULES ───────────── */
+const NUMERIC = /^(smallint|integer|bigint|numeric|real|double precision)/;
+
+// Dates and timestamps print in ISO order, so they compare as text
+const comparator = (type: string) => (a: string, b: string) =>
+  NUMERIC.test(type) ? Number(a) - Number(b) : a < b ? -1 : a > b ? 1 : 0;
+
+const typesOf = (rule: RuleConfig, input: RuleInput) => {
+  const missing = [...rule.columns, ...rule.groupBy].find(c => !input.types.has(c));
+  if (missing) throw new Error(`${CONFIG_FILE}: rule '${rule.name}': table '${input.table}' has no column '${missing}'`);
+  return rule.columns.map(c => input.types.get(c)!);
+};
+
+// from <= to wherever both are set
+const orderCheck = (rule: RuleConfig) => async (input: RuleInput): Promise<Violation[]> => {
+  const [from, to] = rule.columns;
+  const compare = comparator(typesOf(rule, input)[0]!);
+  const violations: Violation[] = [];
+  for await (const rows of input.pages())
+    for (const r of rows)
+      if (r[from] != null && r[to] != null && compare(r[from]!, r[to]!) > 0)
+        violations.push({ rows: [r], message: `${to} ${r[to]} is before ${from} ${r[from]}` });
+  return violations;
+};
+
+// Inclusive [start, end] periods of a group share no day; null ends are open.
+// Groups come one after another, so only the current one is held.
+const noOverlapCheck = (rule: RuleConfig) => async (input: RuleInput): Promise<Violation[]> => {
+  const [start, end] = rule.columns;
+  const compare = comparator(typesOf(rule, input)[0]!);
+  const period = (r: RuleRow) => `${r[start] ?? "open"} – ${r[end] ?? "open"}`;
+  const violations: Violation[] = [];
+  const check = (rows: RuleRow[]) => {
+    rows.sort((a, b) => (a[start] == null ? (b[start] == null ? 0 : -1) : b[start] == null ? 1 : compare(a[start]!, b[start]!)));
+    // The row reaching furthest so far; a later start not past its end overlaps
+    let last: RuleRow | null = null;
+    for (const r of rows) {
+      if (last && (last[end] == null || r[start] == null || compare(r[start]!, last[end]!) <= 0)) {
+        const group = rule.groupBy.map(c => `${c} ${r[c]}`).join(", ");
+        violations.push({ rows: [last, r], message: `periods ${period(last)} and ${period(r)}${group ? ` of ${group}` : ""} overlap` });
+      }
+      if (!last || (last[end] != null && (r[end] == null || compare(r[end]!, last[end]!) > 0))) last = r;
+    }
+  };
+
+  let group: string | null = null;
+  let rows: RuleRow[] = [];
+  for await (const page of input.pages(rule.groupBy))
+    for (const r of page) {
+      const g = JSON.stringify(rule.groupBy.map(c => r[c] ?? null));
+      if (g !== group) {
+        check(rows);
+        [group, rows] = [g, []];
+      }
+      rows.push(r);
+    }
+  check(rows);
+  return violations;
+};
+
+// No chain of from → to edges leads back to where it started. Each strongly
+// connected component with more than one value, or an edge onto itself, is
+// one cycle. The edges are held as values; the rows of a cycle are read back
+// in a second pass.
+const acyclicCheck = (rule: RuleConfig) => async (input: RuleInput): Promise<Violation[]> => {
+  typesOf(rule, input);
+  const [from, to] = rule.columns;
+  const next = new Map<string, string[]>();
+  for await (const rows of input.pages())
+    for (const r of rows) {
+      if (r[from] == null || r[to] == null) continue;
+      if (!next.has(r[from]!)) next.set(r[from]!, []);
+      next.get(r[from]!)!.push(r[to]!);
+    }
+
+  // A component with an edge inside it is a cycle
+  const found = components(next.keys(), n => next.get(n) ?? []);
+  const componentOf = new Map(found.flatMap((nodes, i) => nodes.map(n => [n, i] as const)));
+  const inside = new Map<number, RuleRow[]>();
+  for await (const rows of input.pages())
+    for (const r of rows) {
+      if (r[from] == null || r[to] == null) continue;
+      const i = componentOf.get(r[from]!)!;
+      if (i !== componentOf.get(r[to]!)) continue;
+      if (!inside.has(i)) inside.set(i, []);
+      inside.get(i)!.push(r);
+    }
+  return [...inside].map(([i, rows]) => ({ rows, message: `${from} → ${to} cycle through ${found[i]!.join(", ")}` }));
+};
+
+const declaredRule = (rule: RuleConfig): Rule => ({
+  name: rule.name,
+  table: rule.table,
+  severity: rule.severity,
+  check: { order: orderCheck, noOverlap: noOverlapCheck, acyclic: acyclicCheck }[rule.type](rule),
+});
+
+/* ───────────── CUSTOM RULES ───────────── */
+// src/rules/*.ts when run from source, dist/rules/*.js once built
+const RULES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "rules");
+
+const isRule = (v: unknown): v is Rule => {
+  const r = v as Partial<Record<keyof Rule, unknown>> | null;
+  return (
+    typeof r?.name === "string" &&
+    typeof r.table === "string" &&
+    (r.severity === "error" || r.severity === "warning") &&
+    typeof r.check === "function"
+  );
+};
+
+async function customRules(): Promise<Rule[]> {
+  if (!fs.existsSync(RULES_DIR)) return [];
+  const files = fs.readdirSync(RULES_DIR).filter(f => /\.(js|ts)$/.test(f) && !f.endsWith(".d.ts")).sort();
+  const rules: Rule[] = [];
+  for (const file of files) {
+    const exported = (await import(pathToFileURL(path.join(RULES_DIR, file)).href)).default;
+    const list: unknown[] = Array.isArray(exported) ? exported : [exported];
+    if (!list.every(isRule)) throw new Error(`${path.join(RULES_DIR, file)}: the default export must be a rule or a list of rules`);
+    rules.push(...list);
+  }
+  return rules;
+}
+
+/* ───────────── CHECKS ───────────── */
+export async function loadRules(config: DiffConfig): Promise<Rule[]> {
+  const rules = [...config.rules.map(declaredRule), ...(await customRules())];
+  const twice = rules.find((r, i) => rules.findIndex(o => o.name === r.name) !== i);
+  if (twice) throw new Error(`Business rule '${twice.name}' is defined twice`);
+  return rules;
+}
+
+export const rulesOf = (rules: Rule[], table: string) =>
+  rules.filter(r => r.table === table || r.table === bareName(table));
+
+// Findings of a table's rules that involve a promoted row
+export async function checkRules(rules: Rule[], input: RuleInput, promoted: (key: string) => boolean): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  for (const rule of rulesOf(rules, input.table)) {
+    for (const v of await rule.check(input)) {
+      const keys = v.rows.map(input.keyOf);
+      if (keys.some(promoted))
+        findings.push({ rule: rule.name, severity: rule.severity, table: input.table, keys, message: v.message });
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,39 @@
+import type { Rule, Violation } from "../rules.js";
+
+/**
+ * A price_value's period lies within the availability of the product
+ * offering its price_component belongs to. Open ends are unbounded; dates
+ * compare as text.
+ */
+const rule: Rule = {
+  name: "price-within-offering-availability",
+  table: "price_value",
+  severity: "warning",
+  async check({ table, pages, rowsOf }) {
+    const schema = table.slice(0, table.indexOf("."));
+    const violations: Violation[] = [];
+    for await (const rows of pages()) {
+      // The components and offerings of this page's rows only
+      const components = await rowsOf(`${schema}.price_component`, "price_component_id", rows.map(r => r.price_component_id ?? null));
+      const offerings = await rowsOf(`${schema}.product_offering`, "offering_id", components.map(c => c.offering_id ?? null));
+      const offeringOf = new Map(components.map(c => [c.price_component_id, c.offering_id]));
+      const byId = new Map(offerings.map(o => [o.offering_id, o]));
+
+      for (const r of rows) {
+        const offering = byId.get(offeringOf.get(r.price_component_id) ?? null);
+        if (!offering) continue;
+        const { available_from: from, available_to: to } = offering;
+        const early = from != null && (r.start_date == null || r.start_date < from);
+        const late = to != null && (r.end_date == null || r.end_date > to);
+        if (early || late)
+          violations.push({
+            rows: [r],
+            message: `period ${r.start_date ?? "open"} – ${r.end_date ?? "open"} is outside offering ${offering.code}'s availability ${from ?? "open"} – ${to ?? "open"}`,
+          });
+      }
+    }
+    return violations;
+  },
+};
+
+export default rule;
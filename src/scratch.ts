@@ -0,0 +1,64 @@
+import { error, log } from "console";
+import fs from "fs";
+import { Liquibase, POSTGRESQL_DEFAULT_CONFIG } from "liquibase";
+import { Client, type ClientConfig } from "pg";
+
+/*
+ * Scratch databases a changelog is replayed on: `validate` and `drift`
+ * restore a snapshot.yaml and apply diff directories on them, the diff the
+ * directory its row merge starts from. They live on the VALIDATE_DB_* server,
+ * the target's by default, and are dropped afterwards.
+ */
+
+// Read when used, after the entry point loaded .env
+export const scratchServer = () => ({
+  host: process.env.VALIDATE_DB_HOST ?? process.env.DB_HOST,
+  port: Number(process.env.VALIDATE_DB_PORT ?? process.env.PORT ?? 5432),
+  user: process.env.VALIDATE_DB_USERNAME ?? process.env.DB_USERNAME,
+  password: process.env.VALIDATE_DB_PASSWORD ?? process.env.DB_PASSWORD,
+  ssl: process.env.VALIDATE_DB_SSL === "false" ? (false as const) : { rejectUnauthorized: false },
+});
+
+export const scratchConnection = (database: string): ClientConfig => ({ ...scratchServer(), database });
+
+export const adminClient = () => new Client(scratchConnection(process.env.VALIDATE_DB_ADMIN_DATABASE ?? "postgres"));
+
+// Liquibase on the scratch database; `schema` holds its changelog tables
+export const scratchLiquibase = (changeLogFile: string, database: string, schema: string) => {
+  const { host, port, user, password } = scratchServer();
+  return new Liquibase({
+    ...POSTGRESQL_DEFAULT_CONFIG,
+    username: user ?? '',
+    password: password ?? '',
+    url: `jdbc:postgresql://${host}:${port}/${database}`,
+    changeLogFile,
+    defaultSchemaName: schema,
+  });
+};
+
+export const withScratch = async <T>(database: string, fn: (c: Client) => Promise<T>): Promise<T> => {
+  const client = new Client(scratchConnection(database));
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    await client.end();
+  }
+};
+
+// A new scratch database holding the snapshot's tables and rows
+export const restoreScratch = async (admin: Client, snapshot: string, schema: string): Promise<string> => {
+  const database = `plm_scratch_${Date.now()}`;
+  await admin.query(`CREATE DATABASE "${database}"`);
+  log(`Created scratch database '${database}'`);
+
+  // Schemas are not part of the snapshot's changeSets
+  const schemas = new Set([schema, ...[...fs.readFileSync(snapshot, "utf8").matchAll(/schemaName:\s*(\S+)/g)].map(m => m[1]!)]);
+  await withScratch(database, c => c.query([...schemas].map(s => `CREATE SCHEMA IF NOT EXISTS "${s}"`).join(";")));
+  log(`Restoring ${snapshot}`);
+  await scratchLiquibase(snapshot, database, schema).update({});
+  return database;
+};
+
+export const dropScratch = (admin: Client, database: string) =>
+  admin.query(`DROP DATABASE IF EXISTS "${database}" WITH (FORCE)`).catch(err => error(`Could not drop '${database}': ${err}`));
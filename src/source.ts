@@ -0,0 +1,601 @@
+import { Client, type ClientConfig } from "pg";
+import { createHash } from "crypto";
+import { compareBytes, keyOrder, RAW_TEXT, type PgText } from "./codec.js";
+import type { HashSummary } from "./report.js";
+
+/*
+ * One side of a diff: a live Postgres database or an in-memory model loaded
+ * from a Liquibase changelog or fixtures (see offline.ts). Both answer the
+ * same metadata and row questions, and rows come back as Postgres text in
+ * the same key order, so the engine cannot tell them apart.
+ */
+
+// Rows fetched per keyset page on each side of the row diff
+const PAGE_SIZE = 5000;
+// Rows per key range hashed separately when a table's hashes differ
+const BUCKET_SIZE = 10000;
+
+/* ───────────── NAMES ───────────── */
+// Tables are identified as "schema.table" throughout
+export const qualify = (schema: string, table: string) => `${schema}.${table}`;
+export const splitName = (name: string) => {
+  const i = name.indexOf(".");
+  return { schema: name.slice(0, i), table: name.slice(i + 1) };
+};
+// Quoted SQL reference, e.g. "pricing"."price_value"
+export const sqlName = (name: string) => {
+  const { schema, table } = splitName(name);
+  return `"${schema}"."${table}"`;
+};
+
+/* ───────────── TYPES ───────────── */
+export type Column = {
+  column_name: string;
+  data_type: string; // format_type(): keeps length, precision and scale
+  is_nullable: "YES" | "NO";
+  column_default: string | null;
+  identity: "" | "a" | "d"; // pg_attribute.attidentity: always / by default
+  sequence: string | null; // owned sequence of a serial or identity column, in the table's schema
+  seq_type: string | null;
+  seq_start: string | null;
+  seq_increment: string | null;
+  remarks: string | null;
+};
+
+export type FK = {
+  name: string;
+  child: string;
+  parent: string; // may sit in a schema outside the configured ones
+  childCols: string[];
+  parentCols: string[];
+  onUpdate: string;
+  onDelete: string;
+  deferrable: boolean;
+  initiallyDeferred: boolean;
+};
+
+export type Index = {
+  name: string;
+  table: string;
+  unique: boolean;
+  columns: string[];
+  definition: string; // pg_get_indexdef(), replayed as-is for custom indexes
+  custom: boolean; // partial, expression, non-btree, ordered or covering
+};
+
+export type TableConstraint = {
+  name: string;
+  table: string;
+  columns: string[];
+  definition: string; // pg_get_constraintdef(), e.g. CHECK ((amount >= 0))
+};
+
+export type Row = Record<string, PgText>;
+
+// Single-column FK to the surrogate PK of a parent with a configured match
+// key. Compared as the parent's business key and written as a lookup of the
+// parent in the target, so independently generated ids line up.
+export type KeyRef = { column: string; parent: string; parentCol: string; keyCols: string[]; keyTypes: string[] };
+
+// How the rows of a table are matched, compared and written
+export type RowPlan = {
+  mode: "pk" | "matchKey" | "fullRow";
+  keyCols: string[];
+  compared: string[]; // columns whose changes produce updates
+  omitOnInsert: Set<string>; // surrogate keys the target generates itself
+  keyRefs: Map<string, KeyRef>;
+};
+
+// One ORDER BY term of the merge-join key
+export type SortTerm = {
+  expr: string;
+  param: (n: number) => string;
+  value: (row: Row) => string;
+  compare: (a: string, b: string) => number;
+};
+
+// Key bounds [lo, hi); null is unbounded
+export type KeyRange = { lo: string[] | null; hi: string[] | null };
+export const FULL_RANGE: KeyRange = { lo: null, hi: null };
+
+// The rows of a table as one side of the merge-join reads them
+export type RowQuery = { table: string; plan: RowPlan; terms: SortTerm[] };
+
+export type Source = {
+  label: string; // where the side comes from, for messages
+  schemas(): Promise<string[]>; // the configured schemas that exist
+  tables(): Promise<string[]>;
+  columns(table: string): Promise<Column[]>; // none when the table does not exist
+  pks(): Promise<Map<string, string[]>>;
+  fks(): Promise<FK[]>;
+  // Standalone indexes only: those backing PK/unique constraints follow the constraint
+  indexes(): Promise<Index[]>;
+  constraints(type: "u" | "c"): Promise<TableConstraint[]>;
+  // Rows of the key ranges in key order, with the helper values of the plan
+  rows(q: RowQuery, ranges?: KeyRange[]): AsyncGenerator<Row>;
+  // Rows whose column, as text, holds one of the values
+  rowsWhere(table: string, column: string, values: string[]): Promise<Row[]>;
+  // Row count and ordered aggregate hash of the compared values of a key range
+  rangeHash(q: RowQuery, range: KeyRange): Promise<HashSummary>;
+  // Key ranges of BUCKET_SIZE rows each, covering every possible key
+  bucketRanges(q: RowQuery): Promise<KeyRange[]>;
+  close(): Promise<void>;
+};
+
+/* ───────────── ROW PLANS ───────────── */
+// SQL of the parent's business key for the row's FK value, as a JSON array of texts
+const keyRefExpr = (k: KeyRef) =>
+  `(SELECT json_build_array(${k.keyCols.map(c => `p."${c}"::text`).join(", ")})::text FROM ${sqlName(k.parent)} p WHERE p."${k.parentCol}" = t."${k.column}")`;
+
+// SQL of a column as compared: FK values through the parent's business key
+const valueExpr = (plan: RowPlan, c: string) => {
+  const k = plan.keyRefs.get(c);
+  return k ? keyRefExpr(k) : `t."${c}"`;
+};
+
+const rowHashExpr = (plan: RowPlan) => `md5(ROW(${plan.keyCols.map(c => valueExpr(plan, c)).join(", ")})::text)`;
+
+// Helper values streamed along with each row, read back via `translated`
+const helperColumns = (plan: RowPlan) => [
+  ...[...plan.keyRefs.values()].map(k => `${keyRefExpr(k)} AS "__ref_${k.column}"`),
+  ...(plan.mode === "fullRow" ? [`${rowHashExpr(plan)} AS __rowhash`] : []),
+];
+
+export const translated = (plan: RowPlan, row: Row, c: string): PgText | undefined =>
+  plan.keyRefs.has(c) ? row[`__ref_${c}`] : row[c];
+
+// NULLs first, then the text form bytewise, the same in Postgres and JS
+const textTerms = (expr: string, value: (r: Row) => PgText): SortTerm[] => [
+  { expr: `(${expr} IS NOT NULL)`, param: n => `$${n}::boolean`, value: r => (value(r) === null ? "f" : "t"), compare: compareBytes },
+  { expr: `COALESCE(${expr}::text, '') COLLATE "C"`, param: n => `$${n}::text`, value: r => value(r) ?? "", compare: compareBytes },
+];
+
+// Terms putting rows with the same values of the columns one after another;
+// followed by the key terms, rows stay in a unique order
+export const groupTerms = (columns: string[]): SortTerm[] =>
+  columns.flatMap(c => textTerms(`t."${c}"`, r => r[c] ?? null));
+
+// PK in native order, the row hash, or a match key with NULLs sorted first
+export function sortTerms(plan: RowPlan, types: Map<string, string>): SortTerm[] {
+  if (plan.mode === "pk") {
+    return plan.keyCols.map(c => {
+      const o = keyOrder(types.get(c) ?? "text");
+      return { expr: o.expr(c), param: o.param, value: r => r[c]!, compare: o.compare };
+    });
+  }
+  if (plan.mode === "fullRow") {
+    return [{ expr: `${rowHashExpr(plan)} COLLATE "C"`, param: n => `$${n}::text`, value: r => r.__rowhash!, compare: compareBytes }];
+  }
+  return plan.keyCols.flatMap(c => textTerms(valueExpr(plan, c), r => translated(plan, r, c) ?? null));
+}
+
+const compareKeys = (terms: SortTerm[], a: string[], b: string[]) => {
+  for (const [i, t] of terms.entries()) {
+    const c = t.compare(a[i]!, b[i]!);
+    if (c) return c;
+  }
+  return 0;
+};
+
+const keyValues = (terms: SortTerm[], row: Row) => terms.map(t => t.value(row));
+
+export const compareRows = (terms: SortTerm[], a: Row, b: Row) => compareKeys(terms, keyValues(terms, a), keyValues(terms, b));
+
+/* ───────────── POSTGRES ───────────── */
+function toArray(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map(String);
+  if (typeof v === "string") return v.replace(/[{}"]/g, "").split(",").filter(Boolean);
+  return [];
+}
+
+async function schemas(c: Client, names: string[]): Promise<string[]> {
+  const r = await c.query(`SELECT nspname FROM pg_namespace WHERE nspname = ANY($1)`, [names]);
+  return r.rows.map(r => r.nspname);
+}
+
+async function tables(c: Client, names: string[]): Promise<string[]> {
+  const r = await c.query(`
+    SELECT table_schema, table_name
+    FROM information_schema.tables
+    WHERE table_schema = ANY($1)
+      AND table_type='BASE TABLE'
+  `, [names]);
+  return r.rows.map(r => qualify(r.table_schema, r.table_name));
+}
+
+async function columns(c: Client, t: string): Promise<Column[]> {
+  const { schema, table } = splitName(t);
+  const r = await c.query(`
+    SELECT
+      a.attname AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+      pg_get_expr(d.adbin, d.adrelid) AS column_default,
+      a.attidentity AS identity,
+      sc.relname AS sequence,
+      format_type(sq.seqtypid, NULL) AS seq_type,
+      sq.seqstart AS seq_start,
+      sq.seqincrement AS seq_increment,
+      col_description(cl.oid, a.attnum) AS remarks
+    FROM pg_attribute a
+    JOIN pg_class cl ON cl.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = cl.relnamespace
+    LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+    LEFT JOIN pg_class sc
+      ON sc.oid = to_regclass(pg_get_serial_sequence(format('%I.%I', n.nspname, cl.relname), a.attname))
+    LEFT JOIN pg_sequence sq ON sq.seqrelid = sc.oid
+    WHERE n.nspname = $1 AND cl.relname = $2
+      AND a.attnum > 0 AND NOT a.attisdropped
+    ORDER BY a.attnum
+  `, [schema, table]);
+  return r.rows;
+}
+
+async function pks(c: Client, names: string[]): Promise<Map<string, string[]>> {
+  const r = await c.query(`
+    SELECT tc.table_schema, tc.table_name, kcu.column_name
+    FROM information_schema.table_constraints tc
+    JOIN information_schema.key_column_usage kcu
+      ON tc.constraint_schema = kcu.constraint_schema
+      AND tc.constraint_name = kcu.constraint_name
+      AND tc.table_name = kcu.table_name
+    WHERE tc.constraint_type='PRIMARY KEY' AND tc.table_schema = ANY($1)
+    ORDER BY kcu.ordinal_position
+  `, [names]);
+  const m = new Map<string, string[]>();
+  r.rows.forEach(r => {
+    const t = qualify(r.table_schema, r.table_name);
+    if (!m.has(t)) m.set(t, []);
+    m.get(t)!.push(r.column_name);
+  });
+  return m;
+}
+
+// pg_constraint.confupdtype / confdeltype codes
+const FK_ACTIONS: Record<string, string> = {
+  a: "NO ACTION",
+  r: "RESTRICT",
+  c: "CASCADE",
+  n: "SET NULL",
+  d: "SET DEFAULT",
+};
+
+async function fks(c: Client, names: string[]): Promise<FK[]> {
+  const r = await c.query(`
+    SELECT
+      con.conname,
+      sn.nspname AS child_schema,
+      src.relname AS child,
+      tn.nspname AS parent_schema,
+      tgt.relname AS parent,
+      array_agg(sa.attname ORDER BY s.pos) AS child_cols,
+      array_agg(ta.attname ORDER BY s.pos) AS parent_cols,
+      con.confupdtype,
+      con.confdeltype,
+      con.condeferrable,
+      con.condeferred
+    FROM pg_constraint con
+    JOIN pg_class src ON src.oid = con.conrelid
+    JOIN pg_class tgt ON tgt.oid = con.confrelid
+    JOIN pg_namespace sn ON sn.oid = src.relnamespace
+    JOIN pg_namespace tn ON tn.oid = tgt.relnamespace
+    CROSS JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS s(attnum, pos)
+    CROSS JOIN LATERAL unnest(con.confkey) WITH ORDINALITY AS t(attnum, pos)
+    JOIN pg_attribute sa
+      ON sa.attrelid = src.oid AND sa.attnum = s.attnum
+    JOIN pg_attribute ta
+      ON ta.attrelid = tgt.oid AND ta.attnum = t.attnum
+    WHERE con.contype = 'f' AND s.pos = t.pos AND sn.nspname = ANY($1)
+    GROUP BY con.oid, con.conname, sn.nspname, src.relname, tn.nspname, tgt.relname
+  `, [names]);
+
+  return r.rows.map(r => ({
+    name: r.conname,
+    child: qualify(r.child_schema, r.child),
+    parent: qualify(r.parent_schema, r.parent),
+    childCols: toArray(r.child_cols),
+    parentCols: toArray(r.parent_cols),
+    onUpdate: FK_ACTIONS[r.confupdtype] ?? "NO ACTION",
+    onDelete: FK_ACTIONS[r.confdeltype] ?? "NO ACTION",
+    deferrable: r.condeferrable,
+    initiallyDeferred: r.condeferred,
+  }));
+}
+
+async function indexes(c: Client, names: string[]): Promise<Index[]> {
+  const r = await c.query(`
+    SELECT
+      ic.relname AS name,
+      n.nspname AS schema_name,
+      t.relname AS table_name,
+      ix.indisunique AS is_unique,
+      pg_get_indexdef(ix.indexrelid) AS definition,
+      (ix.indpred IS NOT NULL
+        OR ix.indexprs IS NOT NULL
+        OR am.amname <> 'btree'
+        OR ix.indnkeyatts <> ix.indnatts
+        OR EXISTS (SELECT 1 FROM unnest(ix.indoption::int2[]) o WHERE o <> 0)) AS custom,
+      ARRAY(
+        SELECT a.attname
+        FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, pos)
+        JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+        ORDER BY k.pos
+      ) AS columns
+    FROM pg_index ix
+    JOIN pg_class ic ON ic.oid = ix.indexrelid
+    JOIN pg_class t ON t.oid = ix.indrelid
+    JOIN pg_namespace n ON n.oid = t.relnamespace
+    JOIN pg_am am ON am.oid = ic.relam
+    WHERE n.nspname = ANY($1)
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_constraint con
+        WHERE con.conindid = ix.indexrelid AND con.contype IN ('p', 'u', 'x')
+      )
+  `, [names]);
+  return r.rows.map(r => ({
+    name: r.name,
+    table: qualify(r.schema_name, r.table_name),
+    unique: r.is_unique,
+    columns: toArray(r.columns),
+    definition: r.definition,
+    custom: r.custom,
+  }));
+}
+
+async function constraints(c: Client, names: string[], type: "u" | "c"): Promise<TableConstraint[]> {
+  const r = await c.query(`
+    SELECT
+      con.conname,
+      n.nspname AS schema_name,
+      t.relname AS table_name,
+      pg_get_constraintdef(con.oid) AS definition,
+      ARRAY(
+        SELECT a.attname
+        FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, pos)
+        JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+        ORDER BY k.pos
+      ) AS columns
+    FROM pg_constraint con
+    JOIN pg_class t ON t.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = t.relnamespace
+    WHERE n.nspname = ANY($1) AND con.contype = '${type}'
+  `, [names]);
+  return r.rows.map(r => ({
+    name: r.conname,
+    table: qualify(r.schema_name, r.table_name),
+    columns: toArray(r.columns),
+    definition: r.definition,
+  }));
+}
+
+// Conditions bounding the key to the range; parameters are appended to `values`
+function rangeConditions(terms: SortTerm[], range: KeyRange, values: string[]): string[] {
+  const exprs = `(${terms.map(t => t.expr).join(", ")})`;
+  const params = (bound: string[]) => {
+    const offset = values.length;
+    values.push(...bound);
+    return `(${terms.map((t, i) => t.param(offset + i + 1)).join(", ")})`;
+  };
+  const out: string[] = [];
+  if (range.lo) out.push(`${exprs} >= ${params(range.lo)}`);
+  if (range.hi) out.push(`${exprs} < ${params(range.hi)}`);
+  return out;
+}
+
+/**
+ * Rows of the key ranges in key order, PAGE_SIZE at a time via keyset
+ * pagination. Without a unique key rows can share a key, so ctid breaks
+ * ties between pages.
+ */
+async function* streamRows(c: Client, { table, plan, terms }: RowQuery, ranges: KeyRange[]): AsyncGenerator<Row> {
+  const tieBreak = plan.mode === "fullRow";
+  const exprs = [...terms.map(t => t.expr), ...(tieBreak ? ["ctid"] : [])];
+  const params = [...terms.map(t => t.param), ...(tieBreak ? [(n: number) => `$${n}::tid`] : [])];
+  const select = ["t.*", ...helperColumns(plan), ...(tieBreak ? ["ctid AS __ctid"] : [])].join(", ");
+  for (const range of ranges) {
+    let last: string[] | null = null;
+    for (;;) {
+      const values: string[] = [];
+      const conditions = rangeConditions(terms, range, values);
+      if (last) {
+        const offset = values.length;
+        values.push(...last);
+        conditions.push(`(${exprs.join(", ")}) > (${params.map((p, i) => p(offset + i + 1)).join(", ")})`);
+      }
+      const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+      const { rows }: { rows: Row[] } = await c.query({
+        text: `SELECT ${select} FROM ${sqlName(table)} t ${where} ORDER BY ${exprs.join(", ")} LIMIT ${PAGE_SIZE}`,
+        values,
+        types: RAW_TEXT,
+      });
+      for (const { __ctid, ...row } of rows) yield row;
+      const tail: Row | undefined = rows[rows.length - 1];
+      if (rows.length < PAGE_SIZE || !tail) break;
+      last = [...keyValues(terms, tail), ...(tieBreak ? [tail.__ctid!] : [])];
+    }
+  }
+}
+
+// Arrays of rows as streamRows reads them, a page at a time
+export async function* pagesOf<T>(rows: AsyncIterable<T>): AsyncGenerator<T[]> {
+  let page: T[] = [];
+  for await (const row of rows) {
+    page.push(row);
+    if (page.length === PAGE_SIZE) {
+      yield page;
+      page = [];
+    }
+  }
+  if (page.length) yield page;
+}
+
+async function rowsWhere(c: Client, table: string, column: string, values: string[]): Promise<Row[]> {
+  if (!values.length) return [];
+  const { rows } = await c.query({
+    text: `SELECT * FROM ${sqlName(table)} WHERE "${column}"::text = ANY($1::text[])`,
+    values: [values],
+    types: RAW_TEXT,
+  });
+  return rows;
+}
+
+// Computed in Postgres
+async function rangeHash(c: Client, { table, plan, terms }: RowQuery, range: KeyRange): Promise<HashSummary> {
+  const values: string[] = [];
+  const conditions = rangeConditions(terms, range, values);
+  const exprs = plan.compared.map(c => valueExpr(plan, c));
+  const r = await c.query({
+    text: `
+      SELECT count(*)::int AS rows,
+             md5(string_agg(md5(ROW(${exprs.join(", ")})::text), '' ORDER BY ${terms.map(t => t.expr).join(", ")})) AS hash
+      FROM ${sqlName(table)} t
+      ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+    `,
+    values,
+  });
+  return { rows: r.rows[0].rows, hash: r.rows[0].hash };
+}
+
+async function bucketRanges(c: Client, { table, plan, terms }: RowQuery): Promise<KeyRange[]> {
+  const { rows }: { rows: Row[] } = await c.query({
+    text: `
+      SELECT * FROM (
+        SELECT ${["t.*", ...helperColumns(plan)].join(", ")}, row_number() OVER (ORDER BY ${terms.map(t => t.expr).join(", ")}) AS __rn
+        FROM ${sqlName(table)} t
+      ) s
+      WHERE __rn % ${BUCKET_SIZE} = 1 AND __rn > 1
+      ORDER BY __rn
+    `,
+    types: RAW_TEXT,
+  });
+  const bounds = rows.map(r => keyValues(terms, r));
+  return [null, ...bounds].map((lo, i) => ({ lo, hi: bounds[i] ?? null }));
+}
+
+// A live database, restricted to the given schemas
+export async function pgSource(db: ClientConfig, names: string[]): Promise<Source> {
+  const c = new Client(db);
+  await c.connect();
+  // Values are compared and hashed as text, so both sides render
+  // timestamptz in UTC and floats with the same precision. An empty
+  // search_path makes pg_get_*def() and defaults schema-qualify every name.
+  await c.query("SET TIME ZONE 'UTC'; SET extra_float_digits = 1; SET search_path = ''");
+  return {
+    label: `database ${db.database}`,
+    schemas: () => schemas(c, names),
+    tables: () => tables(c, names),
+    columns: t => columns(c, t),
+    pks: () => pks(c, names),
+    fks: () => fks(c, names),
+    indexes: () => indexes(c, names),
+    constraints: type => constraints(c, names, type),
+    rows: (q, ranges = [FULL_RANGE]) => streamRows(c, q, ranges),
+    rowsWhere: (t, column, values) => rowsWhere(c, t, column, values),
+    rangeHash: (q, range) => rangeHash(c, q, range),
+    bucketRanges: q => bucketRanges(c, q),
+    close: () => c.end(),
+  };
+}
+
+/* ───────────── IN MEMORY ───────────── */
+export type MemoryTable = { columns: Column[]; rows: Row[] };
+
+// Everything a source reports, held as a live database would report it
+export type Model = {
+  schemas: Set<string>;
+  tables: Map<string, MemoryTable>;
+  pks: Map<string, string[]>;
+  fks: FK[];
+  indexes: Index[];
+  uniques: TableConstraint[];
+  checks: TableConstraint[];
+};
+
+export const emptyModel = (): Model => ({
+  schemas: new Set(),
+  tables: new Map(),
+  pks: new Map(),
+  fks: [],
+  indexes: [],
+  uniques: [],
+  checks: [],
+});
+
+const md5 = (v: string) => createHash("md5").update(v).digest("hex");
+
+// ROW(...)::text: fields quoted when empty or holding quotes, backslashes,
+// parentheses, commas or whitespace; NULL is left empty
+const recordText = (values: PgText[]) =>
+  `(${values
+    .map(v => (v === null ? "" : v === "" || /[",\\() \t\n\r\v\f]/.test(v) ? `"${v.replace(/["\\]/g, "$&$&")}"` : v))
+    .join(",")})`;
+
+// json_build_array(...)::text of text values
+const jsonArrayText = (values: PgText[]) => `[${values.map(v => (v === null ? "null" : JSON.stringify(v))).join(", ")}]`;
+
+/**
+ * A model held in memory. Helper values, hashes and the key order are
+ * computed in JS exactly as the Postgres queries render them, so a memory
+ * source can be diffed against a live one.
+ */
+export function memorySource(model: Model, label: string, names: string[]): Source {
+  const inSchemas = (t: string) => names.includes(splitName(t).schema);
+  const rowsOf = (t: string) => model.tables.get(t)?.rows ?? [];
+
+  // The parent's business key by FK value, as keyRefExpr renders it
+  const keyRefValue = (k: KeyRef) => {
+    const keys = new Map(rowsOf(k.parent).map(p => [p[k.parentCol], jsonArrayText(k.keyCols.map(c => p[c] ?? null))]));
+    return (row: Row) => (row[k.column] == null ? null : keys.get(row[k.column]!) ?? null);
+  };
+
+  // Rows with their helper values in key order, once per query
+  const prepared = new WeakMap<RowQuery, Row[]>();
+  const rowsFor = (q: RowQuery) => {
+    if (!prepared.has(q)) {
+      const { plan, terms } = q;
+      const refs = [...plan.keyRefs.values()].map(k => [k.column, keyRefValue(k)] as const);
+      const rows = rowsOf(q.table).map(r => {
+        const row: Row = { ...r };
+        refs.forEach(([c, value]) => (row[`__ref_${c}`] = value(r)));
+        if (plan.mode === "fullRow") row.__rowhash = md5(recordText(plan.keyCols.map(c => translated(plan, row, c) ?? null)));
+        return row;
+      });
+      prepared.set(q, rows.sort((a, b) => compareRows(terms, a, b)));
+    }
+    return prepared.get(q)!;
+  };
+  const inRange = (q: RowQuery, range: KeyRange) => (row: Row) => {
+    const key = keyValues(q.terms, row);
+    return (!range.lo || compareKeys(q.terms, key, range.lo) >= 0) && (!range.hi || compareKeys(q.terms, key, range.hi) < 0);
+  };
+
+  return {
+    label,
+    schemas: async () => [...model.schemas].filter(s => names.includes(s)),
+    tables: async () => [...model.tables.keys()].filter(inSchemas),
+    columns: async t => model.tables.get(t)?.columns ?? [],
+    pks: async () => new Map([...model.pks].filter(([t]) => inSchemas(t))),
+    fks: async () => model.fks.filter(f => inSchemas(f.child)),
+    indexes: async () => model.indexes.filter(i => inSchemas(i.table)),
+    constraints: async type => (type === "u" ? model.uniques : model.checks).filter(k => inSchemas(k.table)),
+    async *rows(q, ranges = [FULL_RANGE]) {
+      for (const range of ranges) yield* rowsFor(q).filter(inRange(q, range));
+    },
+    async rowsWhere(t, column, values) {
+      const wanted = new Set(values);
+      return rowsOf(t).filter(r => r[column] != null && wanted.has(r[column]!));
+    },
+    async rangeHash(q, range) {
+      const rows = rowsFor(q).filter(inRange(q, range));
+      const hashes = rows.map(r => md5(recordText(q.plan.compared.map(c => translated(q.plan, r, c) ?? null))));
+      return { rows: rows.length, hash: rows.length ? md5(hashes.join("")) : null };
+    },
+    async bucketRanges(q) {
+      const bounds = rowsFor(q)
+        .filter((_, i) => i > 0 && i % BUCKET_SIZE === 0)
+        .map(r => keyValues(q.terms, r));
+      return [null, ...bounds].map((lo, i) => ({ lo, hi: bounds[i] ?? null }));
+    },
+    close: async () => {},
+  };
+}
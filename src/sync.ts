@@ -1,60 +1,497 @@
 import { error, log } from "console";
 import { Liquibase, POSTGRESQL_DEFAULT_CONFIG } from "liquibase";
-import fs, { readdirSync } from "fs";
+import { Client } from "pg";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
 import { configDotenv } from 'dotenv';
+import yaml from "js-yaml";
+import { CONFIG_FILE, loadConfig } from "./config.js";
+import {
+  appliedChangeSets,
+  changeSetKey,
+  changeSetsOf,
+  DIFF_DIR,
+  diffDirectories,
+  directoryTime,
+  latestTag,
+  unappliedDirectories,
+} from "./history.js";
+import { CONFLICTS_CHANGELOG, conflictProblem, conflictsChangeLog, readConflicts } from "./conflicts.js";
+import { connectionOf, environment, heldBy, jdbcUrlOf, unappliedIn } from "./environments.js";
+import { changed, readReport, renderDriftMarkdown, type DiffReport } from "./report.js";
+import { adminClient, dropScratch, restoreScratch, scratchLiquibase, scratchServer, withScratch } from "./scratch.js";
 
-// const args = process.argv.slice(2);
+const args = process.argv.slice(2);
 const output = process.env.GITHUB_OUTPUT;
 configDotenv();
+const config = loadConfig();
+
+// `--target <environment>`: its database, diff directories and changelog
+// schema instead of DB_TARGET's (see environments.ts)
+const targetAt = args.indexOf("--target");
+const targetName = targetAt < 0 ? null : args.splice(targetAt, 2)[1] ?? "";
+const TARGET = targetName && Object.hasOwn(config.environments, targetName) ? environment(targetName) : null;
+const ROOT = TARGET ? `./${TARGET.output}` : DIFF_DIR;
+const SCHEMA = TARGET?.changeLogSchema ?? config.schemas[0]!;
+// Diffs of `drift`, kept next to their DRIFT.md; never applied by sync
+const DRIFT_DIR = "db/drift";
 
 const init = async () => {
-  const changeDirectoryName = getDirectoryName();
-  if (!changeDirectoryName) {
+  if (targetName !== null && !TARGET) {
+    const known = Object.keys(config.environments);
+    error(targetName
+      ? `Unknown environment '${targetName}'; ${CONFIG_FILE} defines ${known.length ? known.join(", ") : "none"}`
+      : "--target needs the name of an environment");
+    process.exitCode = 1;
+    return;
+  }
+  if (TARGET && (args[0] === "validate" || args[0] === "drift")) {
+    error(`${args[0]} runs against DB_TARGET only, not with --target`);
+    process.exitCode = 1;
+    return;
+  }
+  if (args[0] === "rollback") return rollback(args.slice(1));
+  if (args[0] === "status") return status();
+  if (args[0] === "--dry-run") return dryRun(args[1]);
+  if (args[0] === "validate") return validate(args[1]);
+  if (args[0] === "drift") return drift();
+  if (args[0] === "resolve") return resolve(args[1]);
+
+  if (!diffDirectories(ROOT).length) {
     error("No change log directory or master changelog file found!!! ");
     return;
   }
-  log("Starting merge!!");
-  log(`Applying changes from directory '${changeDirectoryName}'`);
+  let pending: string[];
   try {
-    await update(changeDirectoryName);
-    log("Merge Completed!!");
-  } catch (error) {
-    log("Failed with error " + error);
+    pending = await pendingDirectories();
+  } catch (err) {
+    error("Failed to read target changelog history " + err);
+    process.exitCode = 1;
+    return;
   }
+  if (!pending.length) {
+    log("Target is up to date, nothing to merge");
+    return;
+  }
+  let held: { dir: string; waiting: string[] } | null;
+  try {
+    held = await heldByUpstream(pending);
+  } catch (err) {
+    error(`Failed to read the history of upstream '${TARGET?.upstream}' ` + err);
+    process.exitCode = 1;
+    return;
+  }
+  if (held) {
+    error(`'${held.dir}' waits for '${TARGET!.upstream}' to apply ${held.waiting.join(", ")}`);
+    pending = pending.slice(0, pending.indexOf(held.dir));
+    if (output) fs.appendFileSync(output, `heldDirectory=${held.dir}\n`);
+    process.exitCode = 1;
+    if (!pending.length) return;
+  }
+
+  log("Starting merge!!");
+  log(`Pending directories (oldest first): ${pending.join(", ")}`);
+  const applied: string[] = [];
+  for (const dir of pending) {
+    log(`Applying changes from directory '${dir}'`);
+    try {
+      await update(dir);
+      applied.push(dir);
+    } catch (err) {
+      error(`Failed applying '${dir}' with error ${err}`);
+      log(`Applied: ${applied.join(", ") || "none"}`);
+      log(`Not applied: ${pending.slice(applied.length).join(", ")}`);
+      if (output) fs.appendFileSync(output, `appliedDirectories=${applied.join(",")}\nfailedDirectory=${dir}\n`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+  if (output) fs.appendFileSync(output, `appliedDirectories=${applied.join(",")}\n`);
+  log("Merge Completed!!");
+};
+
+const targetLogin = () => {
+  if (!TARGET) return { username: process.env.DB_USERNAME ?? '', password: process.env.DB_PASSWORD ?? '' };
+  const { user, password } = connectionOf(TARGET);
+  return { username: user ?? '', password: (password as string | undefined) ?? '' };
 };
 
+const liquibaseFor = (
+  changeLogFile: string,
+  url = TARGET ? jdbcUrlOf(TARGET) : `jdbc:postgresql://${process.env.DB_HOST}:${process.env.PORT}/${process.env.DB_TARGET}`,
+  login = targetLogin()
+): Liquibase =>
+  new Liquibase({
+    ...POSTGRESQL_DEFAULT_CONFIG,
+    ...login,
+    url,
+    changeLogFile,
+    defaultSchemaName: SCHEMA,
+  });
+
+// Tags the target with the directory name once all of its changeSets ran, so
+// `rollback --to <dir>` can return to exactly this release
 const update = async (changeDirectoryName: string) => {
+    assertResolved(changeDirectoryName);
+    const liquibase = liquibaseFor(`${ROOT}/${changeDirectoryName}/master-changelog.yaml`);
+    await liquibase.update({});
+    await liquibase.tag({ tag: changeDirectoryName });
+    log(`Tagged target as '${changeDirectoryName}'`);
+};
+
+const targetClient = () =>
+  TARGET ? new Client(connectionOf(TARGET)) : new Client({
+    host: process.env.DB_HOST,
+    port: Number(process.env.PORT ?? 5432),
+    user: process.env.DB_USERNAME,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_TARGET,
+    ssl: { rejectUnauthorized: false },
+  });
+
+/**
+ * npm run preview -- [<diff-directory>]
+ * Renders the SQL the directory (latest by default) would run into
+ * <output>/<dir>/preview.sql. Liquibase runs against an offline Postgres
+ * database, so DB_TARGET is neither connected to nor locked.
+ */
+const dryRun = async (dir = diffDirectories(ROOT).at(-1)) => {
+  if (!dir || !diffDirectories(ROOT).includes(dir)) {
+    error(`No diff directory '${dir ?? ""}' with a master changelog found`);
+    process.exitCode = 1;
+    return;
+  }
+  const history = path.join(os.tmpdir(), `databasechangelog-${dir}.csv`);
+  try {
+    assertResolved(dir);
+    const sql = await liquibaseFor(
+      `${ROOT}/${dir}/master-changelog.yaml`,
+      `offline:postgresql?changeLogFile=${history}&outputLiquibaseSql=none`
+    ).updateSQL({});
+    const previewFile = `${ROOT}/${dir}/preview.sql`;
+    fs.writeFileSync(previewFile, sql);
+    log(sql);
+    log(`SQL preview written to ${previewFile}`);
+    if (output) fs.appendFileSync(output, `previewPath=${previewFile}\npreviewSql<<PREVIEW_SQL\n${sql}\nPREVIEW_SQL\n`);
+  } catch (err) {
+    error("Dry run failed with error " + err);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(history, { force: true });
+  }
+};
+
+/**
+ * npm run status
+ * Latest tag in the target's databasechangelog and, per diff directory, the
+ * changeSets that have not been applied yet.
+ */
+const status = async () => {
+  const client = targetClient();
+  try {
+    await client.connect();
+    const tagged = await latestTag(client, SCHEMA);
+    const applied = await appliedChangeSets(client, SCHEMA);
+
+    log(tagged
+      ? `Latest tag: '${tagged.tag}' (${new Date(tagged.dateexecuted).toISOString()})`
+      : "Target has no tag yet");
+    let pendingTotal = 0;
+    for (const dir of diffDirectories(ROOT)) {
+      const changeSets = changeSetsOf(dir, ROOT);
+      const pending = changeSets.filter(c => !applied.has(changeSetKey(c.id, c.author, c.file)));
+      pendingTotal += pending.length;
+      if (!pending.length) continue;
+      log(`${dir}: ${pending.length} of ${changeSets.length} changeSets pending`);
+      pending.forEach(c => log(`  - ${c.file}::${c.id}::${c.author}`));
+    }
+    log(pendingTotal ? `${pendingTotal} changeSets pending` : "Target is up to date");
+    if (output) fs.appendFileSync(output, `latestTag=${tagged?.tag ?? ""}\npending=${pendingTotal}\n`);
+  } catch (err) {
+    error("Status failed with error " + err);
+    process.exitCode = 1;
+  } finally {
+    await client.end();
+  }
+};
+
+/**
+ * npm run validate -- [<diff-directory>]
+ * Replays the directory (latest by default) on a scratch database: restores
+ * its snapshot.yaml of the target, applies its master changelog and diffs the
+ * reference against the result. A failing changeSet or any remaining
+ * difference fails the run. The scratch database is dropped afterwards.
+ */
+const validate = async (dir = diffDirectories(ROOT).at(-1)) => {
+  if (!dir || !diffDirectories(ROOT).includes(dir)) {
+    error(`No diff directory '${dir ?? ""}' with a master changelog found`);
+    process.exitCode = 1;
+    return;
+  }
+  const snapshot = `${ROOT}/${dir}/snapshot.yaml`;
+  if (!fs.existsSync(snapshot)) {
+    error(`Diff directory '${dir}' has no snapshot.yaml to restore`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const admin = adminClient();
+  let database: string | null = null;
+  let passed = false;
+  try {
+    await admin.connect();
+    database = await restoreScratch(admin, snapshot, SCHEMA);
+
+    log(`Applying changes from directory '${dir}'`);
+    assertResolved(dir);
     try {
-        const config = {
-            ...POSTGRESQL_DEFAULT_CONFIG,
-            password: process.env.DB_PASSWORD ?? '',
-            username: process.env.DB_USERNAME ?? '',
-            url: `jdbc:postgresql://${process.env.DB_HOST}:${process.env.PORT}/${process.env.DB_TARGET}`,
-            changeLogFile: `./db/diff/${changeDirectoryName}/master-changelog.yaml`,
-        };
-        const liquibase: Liquibase = new Liquibase(config);
-        await liquibase.update({});
+      await scratchLiquibase(`${ROOT}/${dir}/master-changelog.yaml`, database, SCHEMA).update({});
     } catch (err) {
-        error("Failed with error " + err);
+      const failed = await withScratch(database, async c => {
+        const applied = await appliedChangeSets(c, SCHEMA);
+        return changeSetsOf(dir, ROOT).find(cs => !applied.has(changeSetKey(cs.id, cs.author, cs.file)));
+      });
+      error(`ChangeSet ${failed ? `${failed.file}::${failed.id}::${failed.author} ` : ""}failed: ${err}`);
+      return;
+    }
+
+    log("Comparing the reference with the result");
+    const outDir = `db/.${database}`;
+    try {
+      // Merged against the same ancestor, kept target changes and conflicts
+      // resolved to the target are no differences
+      const { ancestor } = readReport(`${ROOT}/${dir}`);
+      const diffDir = runDiff(scratchEnv("TARGET", database), outDir, ancestor ?? null);
+      const remaining = diffDir ? changedTables(readReport(diffDir)) : [];
+      if (remaining.length) {
+        error(`Differences remain after applying '${dir}':`);
+        remaining.forEach(d => error(`  - ${d}`));
+        return;
+      }
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
     }
+    log("Validation passed, no differences remain");
+    passed = true;
+  } catch (err) {
+    error("Validation failed with error " + err);
+  } finally {
+    if (!passed) process.exitCode = 1;
+    if (output) fs.appendFileSync(output, `validation=${passed ? "passed" : "failed"}\n`);
+    if (database) await dropScratch(admin, database);
+    await admin.end();
+  }
+};
+
+/**
+ * npm run drift
+ * Rebuilds the state the target should be in on a scratch database: the
+ * latest snapshot.yaml plus the changeSets the target's databasechangelog
+ * records as run since. That state is diffed against the live target, so
+ * edits made outside Liquibase show up as differences. They are reported in
+ * DRIFT.md next to a changelog that would revert them, and fail the run;
+ * nothing is applied.
+ */
+const drift = async () => {
+  const base = diffDirectories(ROOT).filter(d => fs.existsSync(`${ROOT}/${d}/snapshot.yaml`)).at(-1);
+  if (!base) {
+    error("No diff directory with a snapshot.yaml to start from");
+    process.exitCode = 1;
+    return;
+  }
+
+  const target = targetClient();
+  const admin = adminClient();
+  let database: string | null = null;
+  let clean = false;
+  try {
+    await target.connect();
+    const applied = await appliedChangeSets(target, SCHEMA);
+    await target.end();
+    await admin.connect();
+    database = await restoreScratch(admin, `${ROOT}/${base}/snapshot.yaml`, SCHEMA);
+
+    // Directories are applied oldest first and a failure stops the run, so
+    // the changeSets run of each directory are its first ones
+    for (const dir of diffDirectories(ROOT).filter(d => directoryTime(d)! >= directoryTime(base)!)) {
+      const changeSets = changeSetsOf(dir, ROOT);
+      const firstPending = changeSets.findIndex(c => !applied.has(changeSetKey(c.id, c.author, c.file)));
+      const count = firstPending < 0 ? changeSets.length : firstPending;
+      if (changeSets.slice(count).some(c => applied.has(changeSetKey(c.id, c.author, c.file))))
+        log(`'${dir}' has changeSets run out of order; only its first ${count} are replayed`);
+      if (!count) continue;
+      log(`Replaying ${count} of ${changeSets.length} changeSets from directory '${dir}'`);
+      const changeLogFile = `${ROOT}/${dir}/master-changelog.yaml`;
+      const liquibase = scratchLiquibase(changeLogFile, database, SCHEMA);
+      await (count === changeSets.length ? liquibase.update({}) : liquibase.updateCount({ changelogFile: changeLogFile, count }));
+    }
+
+    log("Comparing the expected state with the target");
+    const diffDir = runDiff(scratchEnv("REFERENCE", database), DRIFT_DIR, null);
+    if (!diffDir) {
+      log("No drift: the target matches its changelog history");
+      if (output) fs.appendFileSync(output, "drift=none\n");
+      clean = true;
+      return;
+    }
+    const report = readReport(diffDir);
+    fs.writeFileSync(path.join(diffDir, "DRIFT.md"), renderDriftMarkdown(report, base));
+    error(`Target changed outside Liquibase since '${base}':`);
+    changedTables(report).forEach(d => error(`  - ${d}`));
+    error(`Report written to ${diffDir}/DRIFT.md`);
+    if (output) fs.appendFileSync(output, `driftDir=${diffDir}\ndrift=found\n`);
+  } catch (err) {
+    error("Drift check failed with error " + err);
+    if (output) fs.appendFileSync(output, "drift=failed\n");
+  } finally {
+    if (!clean) process.exitCode = 1;
+    await target.end().catch(() => {});
+    if (database) await dropScratch(admin, database);
+    await admin.end();
+  }
+};
+
+/**
+ * npm run resolve -- [<diff-directory>]
+ * Writes the directory's (latest by default) conflicts-changelog.yaml from
+ * the resolutions in its conflicts.yaml: the changeSets of rows resolved to
+ * the reference. Every conflict needs a resolution first.
+ */
+const resolve = (dir = diffDirectories(ROOT).at(-1)) => {
+  const conflicts = dir ? readConflicts(`${ROOT}/${dir}`) : null;
+  if (!dir || !conflicts) {
+    error(`No diff directory '${dir ?? ""}' with conflicts found`);
+    process.exitCode = 1;
+    return;
+  }
+  const open = conflicts.conflicts.filter(c => c.resolution !== "reference" && c.resolution !== "target");
+  if (open.length) {
+    error(`${open.length} conflicts need a resolution (reference or target):`);
+    open.forEach(c => error(`  - ${c.table} ${c.key}`));
+    process.exitCode = 1;
+    return;
+  }
+  fs.writeFileSync(`${ROOT}/${dir}/${CONFLICTS_CHANGELOG}`, conflictsChangeLog(conflicts.conflicts));
+  const taken = conflicts.conflicts.filter(c => c.resolution === "reference").length;
+  log(`Resolved ${conflicts.conflicts.length} conflicts: ${taken} from the reference, ${conflicts.conflicts.length - taken} kept on the target`);
+};
+
+// Conflicting rows have to be decided before a directory runs anywhere
+const assertResolved = (dir: string) => {
+  const problem = conflictProblem(`${ROOT}/${dir}`);
+  if (problem) throw new Error(problem);
+};
+
+/* ───────────── SCRATCH DATABASES ───────────── */
+// Settings pointing one side of the diff engine at a scratch database (see scratch.ts)
+const scratchEnv = (side: "REFERENCE" | "TARGET", database: string) => {
+  const { host, port, user, password, ssl } = scratchServer();
+  return {
+    [`DB_${side}`]: database,
+    [`DB_${side}_HOST`]: host,
+    [`DB_${side}_PORT`]: String(port),
+    [`DB_${side}_USERNAME`]: user,
+    [`DB_${side}_PASSWORD`]: password,
+    [`DB_${side}_SSL`]: String(ssl !== false),
+  };
+};
+
+/**
+ * Runs the diff engine with the given settings, writing below `outDir` and
+ * skipping the snapshot and business rules. Rows are merged against
+ * `ancestor`, or two-way without one. Returns the diff directory, or null
+ * when both sides are in sync.
+ */
+const runDiff = (env: Record<string, string | undefined>, outDir: string, ancestor: string | null): string | null => {
+  const script = fileURLToPath(new URL(`./diff${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+  const name = `plm-diff-${process.pid}-${Date.now()}`;
+  const outputFile = path.join(os.tmpdir(), `${name}.output`);
+  const configFile = path.join(os.tmpdir(), `${name}.config.yaml`);
+  const features = { ...config.features, snapshot: false, merge: !!ancestor, rules: false };
+  fs.writeFileSync(configFile, yaml.dump({ ...config, output: outDir, features }));
+  fs.writeFileSync(outputFile, "");
+  try {
+    const run = spawnSync(process.execPath, [script, ...(ancestor ? ["--ancestor", ancestor] : [])], {
+      stdio: "inherit",
+      env: { ...process.env, ...env, GITHUB_OUTPUT: outputFile, PLM_DIFF_CONFIG: configFile },
+    });
+    if (run.status !== 0) throw new Error(`diff exited with ${run.status ?? run.signal}`);
+    return fs.readFileSync(outputFile, "utf8").match(/^diffDir=(.+)$/m)?.[1] ?? null;
+  } finally {
+    fs.rmSync(outputFile, { force: true });
+    fs.rmSync(configFile, { force: true });
+  }
 };
 
-const getDirectoryName = () => {
-  if (fs.existsSync("./db/diff")) {
-    const directories: string[] = readdirSync("./db/diff");
-    let isMasterChangeLogFound: boolean = false;
+// One line per table that differs
+const changedTables = (report: DiffReport) =>
+  report.tables
+    .filter(changed)
+    .map(t => `${t.table} (${t.status}): ${t.schemaChanges} schema changes, ${t.inserts} inserts, ${t.updates} updates, ${t.deletes} deletes`);
 
-    directories.sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
-   
-    if (directories.length) {
 
-      isMasterChangeLogFound = readdirSync(
-        `./db/diff/${directories[directories.length - 1]}/`
-      ).includes("master-changelog.yaml");
+// Directories with at least one changeSet the target has not run, oldest first
+const pendingDirectories = async (): Promise<string[]> => {
+  const client = targetClient();
+  try {
+    await client.connect();
+    return unappliedDirectories(await appliedChangeSets(client, SCHEMA), ROOT);
+  } finally {
+    await client.end();
+  }
+};
+
+const heldByUpstream = async (pending: string[]) =>
+  TARGET?.upstream ? heldBy(pending, await unappliedIn(environment(TARGET.upstream))) : null;
+
+/**
+ * npm run rollback -- <diff-directory>   undo every changeSet of that directory
+ * npm run rollback -- --to <diff-directory>
+ *                                        undo every directory applied after it
+ * npm run rollback -- --tag <tag>        undo everything applied after the tag
+ */
+const rollback = async (params: string[]) => {
+  try {
+    if (params[0] === "--to" && params[1] && !diffDirectories(ROOT).includes(params[1])) {
+      error(`Unknown diff directory '${params[1]}'`);
+      process.exitCode = 1;
+      return;
+    }
+    if ((params[0] === "--tag" || params[0] === "--to") && params[1]) {
+      log(`Rolling back to tag '${params[1]}'`);
+      const changeLogFile = writeAllChangeLog();
+      try {
+        await liquibaseFor(changeLogFile).rollback({ tag: params[1] });
+      } finally {
+        fs.rmSync(changeLogFile, { force: true });
+      }
+    } else if (params[0] && fs.existsSync(`${ROOT}/${params[0]}/master-changelog.yaml`)) {
+      const changeLogFile = `${ROOT}/${params[0]}/master-changelog.yaml`;
+      const count = changeSetsOf(params[0], ROOT).length;
+      log(`Rolling back ${count} changeSets from directory '${params[0]}'`);
+      await liquibaseFor(changeLogFile).rollbackCount({ value: count });
+    } else {
+      error("Usage: rollback <diff-directory> | rollback --to <diff-directory> | rollback --tag <tag>");
+      process.exitCode = 1;
+      return;
     }
-    return isMasterChangeLogFound ? directories[directories.length - 1] : null;
+    log("Rollback Completed!!");
+  } catch (err) {
+    error("Rollback failed with error " + err);
+    process.exitCode = 1;
   }
-  return null;
+};
+
+
+// A tag can sit in any earlier directory, so roll back against all of them
+const writeAllChangeLog = (): string => {
+  const file = "./db/rollback-changelog.yaml";
+  const includes = diffDirectories(ROOT).map(d => `  - include:\n      file: ${ROOT}/${d}/master-changelog.yaml`);
+  fs.writeFileSync(file, `databaseChangeLog:\n${includes.join("\n")}\n`);
+  return file;
 };
 
 init();
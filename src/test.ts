@@ -1,37 +1,45 @@
-import { log } from "console";
+import { error, log } from "console";
+import { Client } from "pg";
 import { configDotenv } from 'dotenv';
-import { lint } from 'yaml-lint';
-import fs, { readdirSync } from "fs";
 
 configDotenv();
 
+/**
+ * npm run test:connection
+ * Smoke test of the environment: every setting the diff needs is present and
+ * both databases accept a connection. Only setting names are printed.
+ */
+const REQUIRED = ["DB_HOST", "PORT", "DB_USERNAME", "DB_PASSWORD", "DB_REFERENCE", "DB_TARGET"];
+
 const init = async () => {
-    log("Hello Liquibase!!!");
+  const missing = REQUIRED.filter(name => !process.env[name]);
+  if (missing.length) {
+    error(`Missing settings: ${missing.join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+  log(`Settings present: ${REQUIRED.join(", ")}`);
+
+  for (const name of ["DB_REFERENCE", "DB_TARGET"]) {
+    const client = new Client({
+      host: process.env.DB_HOST,
+      port: Number(process.env.PORT),
+      user: process.env.DB_USERNAME,
+      password: process.env.DB_PASSWORD,
+      database: process.env[name],
+      ssl: { rejectUnauthorized: false },
+    });
     try {
-        let str = process.env.DB_USERNAME;
-        log("Username = " + str?.substring(0, str.length - 1));
-        str = process.env.DB_PASSWORD;
-        log("Password = " + str?.substring(0, str.length - 1));
-        str = process.env.PORT;
-        log("Post = " + str?.substring(0, str.length - 1));
-        str = process.env.DB_HOST;
-        log("Host = " + str?.substring(0, str.length - 1));
-        str = process.env.DB_REFERENCE;
-        log("Ref DB = " + str?.substring(0, str.length - 1));
-        str = process.env.DB_TARGET;
-        log("Target DB = " + str?.substring(0, str.length - 1));
-        fs.readFile('./db/masetr/changelog-schema-data.yaml', (err, data) => {
-            if (!err) {
-                log(data);
-                lint(data.toString()).then(result => log(result)).catch(error => log(error));
-            } else {
-                log(err);
-            }           
-        });
-        
-    } catch (error) {
-        log("Failed with error " + error);
+      await client.connect();
+      const { rows } = await client.query("SHOW server_version");
+      log(`${name}: connected, PostgreSQL ${rows[0].server_version}`);
+    } catch (err) {
+      error(`${name}: connection failed with error ${err}`);
+      process.exitCode = 1;
+    } finally {
+      await client.end().catch(() => {});
     }
-}
+  }
+};
 
-init();
\ No newline at end of file
+init();
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, test } from "node:test";
+import { encodeValue, sameValue, sqlCondition, sqlLiteral, type PgText } from "../codec.js";
+import { offlineSource } from "../offline.js";
+import { sortTerms, type RowPlan } from "../source.js";
+
+/*
+ * Values as Postgres prints them are encoded into an insert changeSet, which
+ * is replayed offline and read back; the value read has to be the same.
+ */
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "codec-test-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const writeBlob = (bytes: Buffer) => {
+  fs.mkdirSync(path.join(dir, "blobs"), { recursive: true });
+  const name = `blobs/${bytes.toString("hex").slice(0, 16) || "empty"}.bin`;
+  fs.writeFileSync(path.join(dir, name), bytes);
+  return name;
+};
+
+let files = 0;
+
+// The value as a changelog written by the diff leaves it in a table
+async function roundTrip(type: string, value: PgText): Promise<{ attr: string; back: PgText }> {
+  const { attr, value: encoded } = encodeValue(type, value, writeBlob);
+  const file = path.join(dir, `changelog-${++files}.yaml`);
+  fs.writeFileSync(file, `databaseChangeLog:
+  - changeSet:
+      id: round-trip
+      author: test
+      changes:
+        - createTable:
+            tableName: t
+            columns:
+              - column: { name: id, type: integer, constraints: { primaryKey: true } }
+              - column: { name: v, type: '${type}' }
+        - insert:
+            tableName: t
+            columns:
+              - column: { name: id, valueNumeric: '1' }
+              - column:
+                  name: v
+                  ${attr}: ${encoded}
+`);
+  const source = offlineSource(file, ["public"]);
+  const plan: RowPlan = { mode: "pk", keyCols: ["id"], compared: ["v"], omitOnInsert: new Set(), keyRefs: new Map() };
+  const rows = [];
+  for await (const row of source.rows({ table: "public.t", plan, terms: sortTerms(plan, new Map([["id", "integer"]])) }))
+    rows.push(row);
+  await source.close();
+  assert.equal(rows.length, 1);
+  return { attr, back: rows[0]!.v ?? null };
+}
+
+// Type, values as Postgres prints them, and the attribute they are written as
+const CASES: [string, PgText[], string][] = [
+  ["integer", ["0", "-42", "2147483647"], "valueNumeric"],
+  ["bigint", ["9223372036854775807"], "valueNumeric"],
+  ["numeric(12,4)", ["1.5000", "-0.0100", "123456789.1234"], "valueNumeric"],
+  ["numeric", ["NaN"], "valueComputed"],
+  ["real", ["1.1", "-3.4e+38"], "valueNumeric"],
+  ["double precision", ["NaN", "Infinity", "-Infinity"], "valueComputed"],
+  ["boolean", ["t", "f"], "valueBoolean"],
+  ["date", ["2026-01-06"], "valueDate"],
+  ["date", ["0044-03-15 BC", "infinity"], "valueComputed"],
+  ["timestamp without time zone", ["2026-01-06 09:04:10.177", "2026-01-06 00:00:00"], "valueDate"],
+  ["timestamp without time zone", ["0044-03-15 12:00:00 BC"], "valueComputed"],
+  ["timestamp with time zone", ["2026-01-06 09:04:10.177+00", "0044-03-15 12:00:00+00 BC"], "valueComputed"],
+  ["bytea", ["\\x", "\\x00ff10"], "valueBlobFile"],
+  ["integer[]", ["{1,2,3}", "{}"], "valueComputed"],
+  ["text[]", ['{a,"b c",NULL}'], "valueComputed"],
+  ["json", ['{"b": 1, "a": [1, 2]}'], "valueComputed"],
+  ["jsonb", ['{"a": [1, 2], "b": 1}'], "valueComputed"],
+  ["text", ["", "it's", "line\nbreak", "crlf\r\n", "tab\there", "bell\u0007", "\u0085", "null", "  spaced  "], "value"],
+  ["character varying(20)", ["ABC-1"], "value"],
+  ["uuid", ["0b3d1c0e-8f6a-4e4b-9a43-3d1e2f5a6b7c"], "value"],
+];
+
+describe("encodeValue round trip", () => {
+  for (const [type, values, attr] of CASES)
+    for (const value of values)
+      test(`${type} ${JSON.stringify(value)}`, async () => {
+        const result = await roundTrip(type, value);
+        assert.equal(result.attr, attr);
+        assert.ok(sameValue(type, result.back, value), `read back ${JSON.stringify(result.back)}`);
+      });
+
+  test("null", async () => {
+    for (const [type] of CASES) assert.equal((await roundTrip(type, null)).back, null);
+  });
+
+  test("line breaks and control characters are escaped, not folded", () => {
+    assert.equal(encodeValue("text", "line\nbreak", writeBlob).value, '"line\\nbreak"');
+    assert.equal(encodeValue("text", "\u0085", writeBlob).value, '"\\u0085"');
+    assert.equal(encodeValue("text", "it's", writeBlob).value, "'it''s'");
+  });
+});
+
+describe("sameValue", () => {
+  test("numeric ignores trailing zeros and a plus sign", () => {
+    assert.ok(sameValue("numeric(10,2)", "1.50", "1.5"));
+    assert.ok(sameValue("numeric", "10", "10.000"));
+    assert.ok(sameValue("numeric", "+0.0", "-0"));
+    assert.ok(!sameValue("numeric", "1.5", "1.05"));
+    assert.ok(!sameValue("numeric", "NaN", "0"));
+  });
+
+  test("floats compare as numbers, NaN equal to NaN", () => {
+    assert.ok(sameValue("double precision", "1e+20", "100000000000000000000"));
+    assert.ok(sameValue("real", "NaN", "NaN"));
+    assert.ok(!sameValue("real", "Infinity", "-Infinity"));
+  });
+
+  test("json ignores key order and spacing, jsonb does not need to", () => {
+    assert.ok(sameValue("json", '{"b":1,"a":{"y":2,"x":[1,{"q":1,"p":2}]}}', '{"a": {"x": [1, {"p": 2, "q": 1}], "y": 2}, "b": 1}'));
+    assert.ok(!sameValue("json", "[1,2]", "[2,1]"));
+    assert.ok(sameValue("json", "not json", "not json"));
+    assert.ok(!sameValue("jsonb", '{"a": 1, "b": 2}', '{"b": 2, "a": 1}'));
+  });
+
+  test("text, null and missing values", () => {
+    assert.ok(sameValue("text", "a", "a"));
+    assert.ok(!sameValue("text", "a", "a "));
+    assert.ok(sameValue("text", null, null));
+    assert.ok(!sameValue("text", null, ""));
+    assert.ok(!sameValue("text", undefined, "a"));
+  });
+});
+
+describe("sqlLiteral", () => {
+  test("integers and numerics unquoted, everything else quoted and cast", () => {
+    assert.equal(sqlLiteral("integer", "42"), "42");
+    assert.equal(sqlLiteral("numeric(10,2)", "1.50"), "1.50");
+    assert.equal(sqlLiteral("numeric", "NaN"), "'NaN'::numeric");
+    assert.equal(sqlLiteral("real", "1.1"), "'1.1'::real");
+    assert.equal(sqlLiteral("double precision", "-Infinity"), "'-Infinity'::double precision");
+    assert.equal(sqlLiteral("boolean", "t"), "TRUE");
+    assert.equal(sqlLiteral("date", "2026-01-06"), "'2026-01-06'::date");
+    assert.equal(sqlLiteral("text", "it's"), "'it''s'");
+    assert.equal(sqlLiteral("text", null), "NULL");
+  });
+
+  test("conditions", () => {
+    assert.equal(sqlCondition("json", "doc", '{"a":1}'), `"doc"::text = '{"a":1}'`);
+    assert.equal(sqlCondition("integer", "id", null), `"id" IS NULL`);
+    assert.equal(sqlCondition("real", "weight", "1.1"), `"weight" = '1.1'::real`);
+  });
+});
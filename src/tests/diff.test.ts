@@ -0,0 +1,359 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { spawnSync } from "node:child_process";
+import { after, before, describe, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { conflictProblem, readConflicts } from "../conflicts.js";
+
+/*
+ * Diffs between offline sources in a scratch directory with its own config
+ * file; diff.ts reads the config when it is loaded, so it is imported there.
+ */
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "diff-test-"));
+const cwd = process.cwd();
+process.chdir(dir);
+after(() => {
+  process.chdir(cwd);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const write = (file: string, text: string) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, text);
+};
+
+write("plm-diff.config.yaml", `version: 1
+schemas: [public]
+output: diff
+tables:
+  tag:
+    matchKey: [code]
+rules:
+  - { name: period-overlap, table: period, type: noOverlap, columns: [start_date, end_date], groupBy: [grp], severity: warning }
+  - { name: edge-cycle, table: edge, type: acyclic, columns: [src, dst], severity: warning }
+`);
+
+// The reference as fixtures, the target as a changelog it can be replayed on
+const table = (name: string, identity: string, label: string, rows: string[]) =>
+  write(`ref/public.${name}.yaml`, `columns:
+  - { name: id, type: integer, identity: ${identity} }
+  - { name: ${label}, type: text }
+primaryKey: [id]
+rows:
+${rows.map(r => `  - ${r}`).join("\n")}
+`);
+
+table("item", "always", "label", ["{ id: 1, label: a }", "{ id: 5, label: b }", "{ id: 9, label: c }"]);
+table("tag", "always", "code", ["{ id: 1, code: A }", "{ id: 2, code: B }"]);
+table("log", "always", "label", ["{ id: 4, label: x }"]);
+table("note", "by default", "label", ["{ id: 3, label: y }"]);
+
+// Children before their parents in key order
+write("ref/public.category.yaml", `columns:
+  - { name: id, type: integer }
+  - { name: parent_id, type: integer }
+primaryKey: [id]
+foreignKeys:
+  - { name: category_parent_fk, columns: [parent_id], references: category, referencedColumns: [id] }
+rows:
+  - { id: 1, parent_id: 7 }
+  - { id: 3, parent_id: 1 }
+  - { id: 6, parent_id: null }
+  - { id: 7, parent_id: null }
+`);
+
+// book.place_id moves from rack to shelf, and its row with it
+write("ref/public.rack.yaml", "columns: [id]\nprimaryKey: [id]\nrows: [{ id: r }]\n");
+write("ref/public.shelf.yaml", "columns: [id]\nprimaryKey: [id]\nrows: [{ id: s }]\n");
+write("ref/public.book.yaml", `columns: [id, place_id]
+primaryKey: [id]
+foreignKeys:
+  - { name: book_place_fk, columns: [place_id], references: shelf, referencedColumns: [id] }
+rows:
+  - { id: b, place_id: s }
+`);
+
+// Groups interleaved in key order
+write("ref/public.period.yaml", `columns: [id, grp, start_date, end_date]
+primaryKey: [id]
+rows:
+  - { id: 1, grp: a, start_date: 2026-01-01, end_date: 2026-01-31 }
+  - { id: 2, grp: b, start_date: 2026-01-01, end_date: 2026-12-31 }
+  - { id: 3, grp: a, start_date: 2026-01-15, end_date: 2026-02-28 }
+  - { id: 4, start_date: 2026-03-01 }
+  - { id: 5, grp: b, start_date: 2027-01-01 }
+  - { id: 6, start_date: 2026-04-01 }
+`);
+
+write("ref/public.edge.yaml", `columns: [id, src, dst]
+primaryKey: [id]
+rows:
+  - { id: 1, src: x, dst: y }
+  - { id: 2, src: y, dst: z }
+  - { id: 3, src: y, dst: x }
+`);
+
+const createTable = (name: string, label: string) => `
+        - createTable:
+            tableName: ${name}
+            columns:
+              - column: { name: id, type: integer, autoIncrement: true, generationType: ALWAYS, constraints: { primaryKey: true } }
+              - column: { name: ${label}, type: text }`;
+
+const category = (id: number, parent: number | null) => `
+        - insert:
+            tableName: category
+            columns: [{ column: { name: id, valueNumeric: ${id} } }${parent === null ? "" : `, { column: { name: parent_id, valueNumeric: ${parent} } }`}]`;
+
+write("target.yaml", `databaseChangeLog:
+  - changeSet:
+      id: target
+      author: test
+      changes:${createTable("item", "label")}${createTable("tag", "code")}
+        - createTable:
+            tableName: category
+            columns:
+              - column: { name: id, type: integer, constraints: { primaryKey: true } }
+              - column: { name: parent_id, type: integer }
+        - addForeignKeyConstraint:
+            constraintName: category_parent_fk
+            baseTableName: category
+            baseColumnNames: parent_id
+            referencedTableName: category
+            referencedColumnNames: id
+        - createTable:
+            tableName: rack
+            columns: [{ column: { name: id, type: text, constraints: { primaryKey: true } } }]
+        - createTable:
+            tableName: shelf
+            columns: [{ column: { name: id, type: text, constraints: { primaryKey: true } } }]
+        - createTable:
+            tableName: book
+            columns:
+              - column: { name: id, type: text, constraints: { primaryKey: true } }
+              - column: { name: place_id, type: text }
+        - addForeignKeyConstraint:
+            constraintName: book_place_fk
+            baseTableName: book
+            baseColumnNames: place_id
+            referencedTableName: rack
+            referencedColumnNames: id
+        - insert: { tableName: rack, columns: [{ column: { name: id, value: r } }] }
+        - insert: { tableName: shelf, columns: [{ column: { name: id, value: s } }] }
+        - insert: { tableName: book, columns: [{ column: { name: id, value: b } }, { column: { name: place_id, value: r } }] }${category(6, null)}${category(8, null)}${category(2, 8)}${category(5, 2)}
+        - insert:
+            tableName: item
+            columns: [{ column: { name: id, valueNumeric: 1 } }, { column: { name: label, value: a } }]
+        - insert:
+            tableName: item
+            columns: [{ column: { name: id, valueNumeric: 2 } }, { column: { name: label, value: z } }]
+        - insert:
+            tableName: tag
+            columns: [{ column: { name: id, valueNumeric: 7 } }, { column: { name: code, value: A } }]
+`);
+
+let diff: typeof import("../diff.js");
+let diffDir = "";
+const read = (name: string) => fs.readFileSync(path.join(diffDir, name), "utf8");
+
+before(async () => {
+  diff = await import("../diff.js");
+  const result = await diff.generateDiff({ reference: "ref", target: "target.yaml" });
+  assert.ok(result);
+  diffDir = result.diffDir;
+});
+
+describe("identity columns", () => {
+  // The changelogs hold the SQL as single-quoted YAML
+  test("GENERATED ALWAYS values are inserted with OVERRIDING SYSTEM VALUE", () => {
+    const changes = read("diff-public.item.yaml");
+    assert.equal(changes.match(/OVERRIDING SYSTEM VALUE/g)?.length, 2);
+    assert.match(changes, /INSERT INTO "public"\."item" \("id", "label"\) OVERRIDING SYSTEM VALUE VALUES \(9, ''c''\)/);
+    assert.doesNotMatch(changes, /- insert:/);
+    // rolled back by deleting the row, and the sequence moved past it
+    assert.match(changes, /rollback:\n\s+- delete:[\s\S]*where: '"id" = 9'/);
+    assert.match(changes, /setval\(pg_get_serial_sequence\(''"public"\."item"'', ''id''\)/);
+    assert.match(read("insert-public.log.yaml"), /OVERRIDING SYSTEM VALUE VALUES \(4, ''x''\)/);
+    // and a deleted row restored by the rollback
+    assert.match(read("delete-public.item.yaml"), /rollback:\n\s+- sql:\n\s+sql: 'INSERT INTO "public"\."item" \("id", "label"\) OVERRIDING SYSTEM VALUE VALUES \(2, ''z''\)'/);
+  });
+
+  test("surrogate keys are left out and BY DEFAULT values inserted as they are", () => {
+    const tag = read("diff-public.tag.yaml");
+    assert.match(tag, /- insert:/);
+    assert.doesNotMatch(tag, /OVERRIDING|name: id/);
+    const note = read("insert-public.note.yaml");
+    assert.match(note, /- insert:[\s\S]*name: id\n\s+valueNumeric: '3'/);
+    assert.doesNotMatch(note, /OVERRIDING/);
+  });
+
+  test("the changelog replays offline onto the target", async () => {
+    write("applied.yaml", `databaseChangeLog:
+  - include: { file: target.yaml }
+  - include: { file: ${diffDir}/master-changelog.yaml }
+`);
+    assert.equal(await diff.generateDiff({ reference: "ref", target: "applied.yaml" }), null);
+  });
+});
+
+describe("self-referencing rows", () => {
+  const keys = (file: string) => [...read(file).matchAll(/public\.category\/([^/]+)\/\w+\//g)].map(m => m[1]);
+
+  test("inserts come parents first and deletes children first", () => {
+    assert.deepEqual(keys("diff-public.category.yaml"), ["7", "1", "3"]);
+    assert.deepEqual(keys("delete-public.category.yaml"), ["5", "2", "8"]);
+  });
+
+  test("the held changeSets leave no file behind", () => {
+    assert.deepEqual(fs.readdirSync(diffDir).filter(f => f.startsWith(".")), []);
+  });
+});
+
+describe("foreign keys", () => {
+  test("a changed FK is dropped before the row changes and added again after them", () => {
+    const files = [...read("master-changelog.yaml").matchAll(/file: \S+\/([^/\s]+)$/gm)].map(m => m[1]);
+    const at = (name: string) => files.indexOf(name);
+    assert.ok(at("drop-fks.yaml") >= 0 && at("drop-fks.yaml") < at("diff-public.book.yaml"));
+    assert.ok(at("new-fks.yaml") > at("diff-public.book.yaml"));
+    assert.equal(at("new-fks.yaml"), files.length - 1);
+    assert.match(read("new-fks.yaml"), /constraintName: book_place_fk[\s\S]*referencedTableName: shelf/);
+  });
+});
+
+describe("business rules", () => {
+  const findings = (rule: string) =>
+    (JSON.parse(read("report.json")).findings as { rule: string; keys: string[]; message: string }[])
+      .filter(f => f.rule === rule)
+      .map(f => f.keys);
+
+  test("noOverlap checks each group, wherever its rows are in key order", () => {
+    assert.deepEqual(findings("period-overlap"), [["4", "6"], ["1", "3"]]);
+  });
+
+  test("acyclic reports the rows of a cycle", () => {
+    assert.deepEqual(findings("edge-cycle"), [["1", "3"]]);
+  });
+});
+
+// Rows of the ancestor, the reference and the target per key; null where a side has none
+const MERGE: [number, string, ...([string, number] | null)[]][] = [
+  [1, "unchanged", ["a", 1], ["a", 1], ["a", 1]],
+  [2, "changed in the reference", ["b", 1], ["b", 2], ["b", 1]],
+  [3, "changed on the target", ["c", 1], ["c", 1], ["c", 9]],
+  [4, "changed on both, other columns", ["d", 1], ["D", 1], ["d", 5]],
+  [5, "changed on both, same column", ["e", 1], ["e", 2], ["e", 3]],
+  [6, "changed on both, same value", ["f", 1], ["f", 2], ["f", 2]],
+  [7, "inserted on the target", null, null, ["g", 1]],
+  [8, "deleted by the reference", ["h", 1], null, ["h", 1]],
+  [9, "deleted by the reference, changed on the target", ["i", 1], null, ["i", 7]],
+  [10, "deleted on the target", ["j", 1], ["j", 1], null],
+  [11, "deleted on the target, changed in the reference", ["k", 1], ["k", 2], null],
+  [12, "inserted in the reference", null, ["l", 1], null],
+  [13, "inserted on both", null, ["m", 1], ["m", 2]],
+  [14, "inserted on both, same row", null, ["n", 1], ["n", 1]],
+];
+
+describe("three-way merge", () => {
+  const side = (i: number) => MERGE.flatMap(([id, , ...rows]) => (rows[i] ? [[id, ...rows[i]!] as const] : []));
+  const fixtures = (dir: string, i: number) =>
+    write(`${dir}/public.part.yaml`, `columns: [{ name: id, type: integer }, name, { name: price, type: integer }]
+primaryKey: [id]
+rows:
+${side(i).map(([id, name, price]) => `  - { id: ${id}, name: ${name}, price: ${price} }`).join("\n")}
+`);
+  fixtures("merge/ancestor", 0);
+  fixtures("merge/ref", 1);
+  write("merge/target.yaml", `databaseChangeLog:
+  - changeSet:
+      id: target
+      author: test
+      changes:
+        - createTable:
+            tableName: part
+            columns:
+              - column: { name: id, type: integer, constraints: { primaryKey: true } }
+              - column: { name: name, type: text }
+              - column: { name: price, type: integer }
+${side(2).map(([id, name, price]) => `        - insert:
+            tableName: part
+            columns: [{ column: { name: id, valueNumeric: ${id} } }, { column: { name: name, value: ${name} } }, { column: { name: price, valueNumeric: ${price} } }]`).join("\n")}
+`);
+
+  let mergeDir = "";
+  const inMerge = (name: string) => path.join(mergeDir, name);
+  const keys = (file: string, op: string) =>
+    [...fs.readFileSync(inMerge(file), "utf8").matchAll(new RegExp(`public\\.part/(\\d+)/${op}/`, "g"))].map(m => Number(m[1]));
+
+  before(async () => {
+    const result = await diff.generateDiff({ reference: "merge/ref", target: "merge/target.yaml", ancestor: "merge/ancestor" });
+    assert.ok(result);
+    mergeDir = result.diffDir;
+  });
+
+  test("changes made only in the reference are written", () => {
+    assert.deepEqual(keys("diff-public.part.yaml", "insert"), [12]);
+    assert.deepEqual(keys("diff-public.part.yaml", "update"), [2, 4]);
+    assert.deepEqual(keys("delete-public.part.yaml", "delete"), [8]);
+    // only the column the target left alone
+    const update = fs.readFileSync(inMerge("diff-public.part.yaml"), "utf8").split("- changeSet:").find(c => c.includes("/4/update/"))!;
+    const changes = update.slice(0, update.indexOf("rollback:"));
+    assert.match(changes, /name: name\n\s+value: 'D'/);
+    assert.doesNotMatch(changes, /name: price/);
+  });
+
+  test("changes made only on the target are kept", () => {
+    const [part] = JSON.parse(fs.readFileSync(inMerge("report.json"), "utf8")).tables;
+    assert.deepEqual(
+      { inserts: part.inserts, updates: part.updates, deletes: part.deletes, kept: part.kept, conflicts: part.conflicts },
+      { inserts: 1, updates: 2, deletes: 1, kept: 4, conflicts: 4 }
+    );
+  });
+
+  // Deletes come first, as they run first
+  test("rows both sides changed are conflicts, with the values of each side", () => {
+    const conflicts = readConflicts(mergeDir)!;
+    assert.equal(conflicts.ancestor, "merge/ancestor");
+    assert.deepEqual(
+      conflicts.conflicts.map(c => [c.key, c.change, c.columns.map(v => [v.column, v.ancestor, v.reference, v.target])]),
+      [
+        ["9", "delete", [["price", "1", null, "7"]]],
+        ["5", "update", [["price", "1", "2", "3"]]],
+        ["11", "insert", [["price", "1", "2", null]]],
+        ["13", "update", [["price", null, "1", "2"]]],
+      ]
+    );
+    assert.ok(conflicts.conflicts.every(c => c.resolution === null));
+    assert.match(fs.readFileSync(inMerge("master-changelog.yaml"), "utf8"), /conflicts-changelog\.yaml/);
+    assert.equal(fs.readFileSync(inMerge("conflicts-changelog.yaml"), "utf8"), "databaseChangeLog: []\n");
+    assert.match(conflictProblem(mergeDir)!, /4 of 4 conflicts .* need a resolution/);
+  });
+
+  test("resolve writes the rows taken from the reference", () => {
+    // key 5 stays as the target has it
+    const resolutions = ["reference", "target", "reference", "reference"];
+    const file = inMerge("conflicts.yaml");
+    fs.writeFileSync(file, fs.readFileSync(file, "utf8").replace(/resolution: null/g, () => `resolution: ${resolutions.shift()}`));
+    assert.match(conflictProblem(mergeDir)!, /does not match the resolutions/);
+
+    const sync = fileURLToPath(new URL("../sync.js", import.meta.url));
+    const run = spawnSync(process.execPath, [sync, "resolve", path.basename(mergeDir)], { encoding: "utf8" });
+    assert.equal(run.status, 0, run.stderr);
+    assert.equal(conflictProblem(mergeDir), null);
+    const changeLog = fs.readFileSync(inMerge("conflicts-changelog.yaml"), "utf8");
+    assert.deepEqual([...changeLog.matchAll(/public\.part\/(\d+)\//g)].map(m => Number(m[1])), [9, 11, 13]);
+  });
+
+  test("the resolved directory replays onto the target; only the row kept on the target still differs", async () => {
+    write("merge/applied.yaml", `databaseChangeLog:
+  - include: { file: merge/target.yaml }
+  - include: { file: ${mergeDir}/master-changelog.yaml }
+`);
+    const again = await diff.generateDiff({ reference: "merge/ref", target: "merge/applied.yaml", ancestor: "merge/ancestor" });
+    assert.ok(again);
+    assert.deepEqual(readConflicts(again.diffDir)!.conflicts.map(c => c.key), ["5"]);
+    assert.deepEqual(fs.readdirSync(again.diffDir).filter(f => /^(diff|delete|insert)-/.test(f)), []);
+  });
+});
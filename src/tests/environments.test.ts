@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, test } from "node:test";
+import { connectionOf, heldBy, type Environment } from "../environments.js";
+
+/*
+ * Passwords read from a pgpass-style file, and the directories a target
+ * waits with until its upstream has applied them.
+ */
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "environments-test-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+
+// The password connectionOf finds for the environment in a passfile of the lines
+const passwordOf = (lines: string[], env: Partial<Environment> = {}) => {
+  const passfile = path.join(dir, `pgpass-${++files}`);
+  fs.writeFileSync(passfile, `${lines.join("\n")}\n`);
+  return connectionOf({
+    name: "test",
+    host: "db.example",
+    port: 5432,
+    database: "plm",
+    schema: null,
+    ssl: false,
+    user: "deploy",
+    userEnv: "ENVIRONMENTS_TEST_DB_USERNAME",
+    passwordEnv: "ENVIRONMENTS_TEST_DB_PASSWORD",
+    passfile,
+    upstream: null,
+    output: "db/diff/test",
+    changeLogSchema: "public",
+    ...env,
+  }).password;
+};
+
+describe("passfile", () => {
+  test("fields are host:port:database:user:password", () => {
+    assert.equal(passwordOf(["db.example:5432:plm:deploy:secret"]), "secret");
+    assert.equal(passwordOf(["db.example:5433:plm:deploy:secret"]), undefined);
+  });
+
+  test("a backslash escapes : and itself", () => {
+    assert.equal(passwordOf(["db.example:5432:plm:deploy:a\\:b\\\\c"]), "a:b\\c");
+    assert.equal(passwordOf(["db.example:5432:plm:de\\:ploy:secret"], { user: "de:ploy" }), "secret");
+    // an escaped : does not end the field
+    assert.equal(passwordOf(["db.example\\:5432:plm:deploy:secret"]), undefined);
+  });
+
+  test("* matches any value and the first matching line wins", () => {
+    assert.equal(passwordOf(["*:*:*:deploy:any"]), "any");
+    assert.equal(passwordOf(["# comment", "", "other:*:*:*:no", "*:5432:plm:*:first", "db.example:5432:plm:deploy:second"]), "first");
+  });
+
+  test("blank and commented lines are skipped, short lines never match", () => {
+    assert.equal(passwordOf(["#db.example:5432:plm:deploy:commented", "db.example:5432:plm:deploy"]), undefined);
+  });
+});
+
+describe("heldBy", () => {
+  const [d1, d2, d3] = ["2026-01-05T10-00-00-000Z", "2026-01-06T10-00-00-000Z", "2026-01-07T10-00-00-000Z"];
+
+  test("directories wait for the upstream's older unapplied ones", () => {
+    assert.deepEqual(heldBy([d1, d3], [d2]), { dir: d3, waiting: [d2] });
+    assert.deepEqual(heldBy([d2, d3], [d1, d2]), { dir: d2, waiting: [d1, d2] });
+  });
+
+  test("nothing is held when the upstream has applied everything up to them", () => {
+    assert.equal(heldBy([d1, d2], [d3]), null);
+    assert.equal(heldBy([d1], []), null);
+  });
+});